@@ -1,129 +1,766 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { Button } from './components/Button';
-import { AnimationPlayer } from './components/AnimationPlayer';
-import { generateMotionFrame, upscaleFrame } from './services/geminiService';
-import { Wand2, Film, AlertCircle, ArrowRight, ArrowLeft, ArrowUp, ArrowDown, ZoomIn, ZoomOut, Move, Download, FileArchive, Video, Sparkles } from 'lucide-react';
-import { GenerationStatus } from './types';
+import { AnimationPlayer, FrameEditHandlers } from './components/AnimationPlayer';
+import { TimingSettings } from './components/TimingSettings';
+import { MotionSettings } from './components/MotionSettings';
+import { HistoryPanel } from './components/HistoryPanel';
+import { BatchPanel } from './components/BatchPanel';
+import { VariationsPanel } from './components/VariationsPanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { FrameCompare } from './components/FrameCompare';
+import { SubjectMaskEditor } from './components/SubjectMaskEditor';
+import { PromptKind, PromptTemplatePanel } from './components/PromptTemplatePanel';
+import { UpscaleEngine, UpscalePanel } from './components/UpscalePanel';
+import { QualityPanel } from './components/QualityPanel';
+import { PROVIDERS, DEFAULT_PROVIDER_ID, getProvider } from './services/providers';
+import { activeApiKey, getSettings, saveSettings, modelLabel } from './services/settingsStore';
+import { geminiProvider } from './services/geminiService';
+import { createJobQueue, errorMessage, JobCancelledError } from './services/generationQueue';
+import { DEFAULT_SPRITE_SHEET, exportBatch, exportGif, exportApng, exportSpriteSheet, exportVideo } from './services/exportService';
+import { BUILT_IN_PROMPT_TEMPLATES, DEFAULT_PROMPT_TEMPLATE, DEFAULT_SAMPLING, buildInbetweenPrompt, buildMotionPrompt, buildUpscalePrompt } from './services/prompts';
+import { loadUserPresets, saveUserPresets } from './services/presetStore';
+import { VideoContainer } from './services/encoders/videoEncoder';
+import { createProjectId, saveProject } from './services/projectStore';
+import { BUNDLE_EXTENSION, exportProjectBundle, readProjectBundle } from './services/projectBundle';
+import { GenerationRun, createRunFrames, fromRunSettings, initialFrameStates, requestRunFrame, toRunSettings } from './services/generationRun';
+import { DEFAULT_VARIATIONS, MAX_VARIATIONS, createTakes, randomSeed, runVariations, variationSampling } from './services/variationService';
+import { runBatch } from './services/batchService';
+import { DEFAULT_STABILIZATION, SubjectComposite, stabilizeFrames } from './services/stabilizationService';
+import { INTERPOLATION_MULTIPLIERS, InterpolatedFrame, interpolateFrames } from './services/interpolationService';
+import { DEFAULT_LOCAL_UPSCALE, localUpscaleVariant, upscaleFramesLocally } from './services/localUpscaleService';
+import { DEFAULT_QUALITY, framesToRegenerate, scoreFrames } from './services/qualityService';
+import { downloadBlob, getClosestAspectRatio } from './utils/imageUtils';
+import { Wand2, Film, AlertCircle, Download, Server, FileArchive, Video, ImagePlay, XCircle, Link2, KeyRound, Undo2, Redo2, Crosshair, Loader2, Layers, SplitSquareHorizontal, ScanEye, LayoutGrid, Shuffle, Dices, Package, Settings } from 'lucide-react';
+import { AppSettings, BatchItem, FrameJobState, FrameQuality, FrameResult, GeneratedFrame, GenerationMode, GenerationStatus, MotionDescription, MotionTiming, PlaybackSettings, ProjectSnapshot, PromptTemplate, QualityOptions, SequenceState, SpriteSheetOptions, StabilizationOptions, InterpolationMethod, InterpolationOptions, LocalUpscaleOptions, UpscaleSize, SamplingParams, VariationOptions, VariationTake } from './types';
+import { DEFAULT_MOTION, evaluateMotion, hasPath, summarizeMotion } from './utils/motion';
+import { frameProgress } from './utils/easing';
+import { createFrame, insertItem, moveItem, removeItem } from './utils/frames';
+import { DEFAULT_PLAYBACK, buildTimeline } from './utils/playback';
 import JSZip from 'jszip';
 
-const TOTAL_FRAMES = 10;
+const DEFAULT_TIMING: MotionTiming = {
+  frameCount: 10,
+  fps: 4,
+  easing: { type: 'linear' },
+};
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_RETRIES = 3;
+const SAVE_DEBOUNCE_MS = 1000;
+const MAX_UNDO_STEPS = 50;
 
-const DIRECTION_OPTIONS = [
-  { id: 'Left', label: 'Left', icon: ArrowLeft },
-  { id: 'Right', label: 'Right', icon: ArrowRight },
-  { id: 'Up', label: 'Up', icon: ArrowUp },
-  { id: 'Down', label: 'Down', icon: ArrowDown },
-  { id: 'Zoom In', label: 'Closer', icon: ZoomIn },
-  { id: 'Zoom Out', label: 'Farther', icon: ZoomOut },
+// The project the current sequence is saved under
+interface ProjectRef {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+const GENERATION_MODE_OPTIONS: { id: GenerationMode; label: string; hint: string }[] = [
+  { id: 'parallel', label: 'Parallel', hint: 'Fast, frames from the original' },
+  { id: 'chained', label: 'Chained', hint: 'Slower, each frame from the last' },
 ];
 
 const App: React.FC = () => {
   const [originalImage, setOriginalImage] = useState<string | null>(null);
-  const [generatedFrames, setGeneratedFrames] = useState<string[]>([]);
+  const [generatedFrames, setGeneratedFrames] = useState<GeneratedFrame[]>([]);
   const [promptDescription, setPromptDescription] = useState<string>('The main subject is moving');
-  const [selectedDirection, setSelectedDirection] = useState<string>('Right');
+  const [userPresets, setUserPresets] = useState<PromptTemplate[]>(loadUserPresets);
+  const [promptTemplateId, setPromptTemplateId] = useState(DEFAULT_PROMPT_TEMPLATE.id);
+  const [motion, setMotion] = useState<MotionDescription>(DEFAULT_MOTION);
+  const [timing, setTiming] = useState<MotionTiming>(DEFAULT_TIMING);
   const [status, setStatus] = useState<GenerationStatus>({
     isGenerating: false,
     completedFrames: 0,
-    totalFrames: TOTAL_FRAMES
+    totalFrames: DEFAULT_TIMING.frameCount
   });
+  const [providerId, setProviderId] = useState<string>(DEFAULT_PROVIDER_ID);
   const [isDownloading, setIsDownloading] = useState(false);
   const [isUpscaling, setIsUpscaling] = useState(false);
+  const [exportFps, setExportFps] = useState(DEFAULT_TIMING.fps);
+  const [exportLoopCount, setExportLoopCount] = useState(0);
+  const [gifDither, setGifDither] = useState(true);
+  const [videoContainer, setVideoContainer] = useState<VideoContainer>('webm');
+  const [videoBitrate, setVideoBitrate] = useState(4_000_000);
+  const [videoHeight, setVideoHeight] = useState(0);
+  const [spriteSheet, setSpriteSheet] = useState<SpriteSheetOptions>(DEFAULT_SPRITE_SHEET);
+
+  const [keyframeMode, setKeyframeMode] = useState(false);
+  const [endImage, setEndImage] = useState<string | null>(null);
+  const [subjectMask, setSubjectMask] = useState<string | null>(null);
+  const [isMasking, setIsMasking] = useState(false);
+  const [generationMode, setGenerationMode] = useState<GenerationMode>('parallel');
+  const [useReference, setUseReference] = useState(true);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [maxRetries, setMaxRetries] = useState(DEFAULT_MAX_RETRIES);
+  const [queue] = useState(() => createJobQueue({ concurrency: DEFAULT_CONCURRENCY, maxRetries: DEFAULT_MAX_RETRIES }));
+  // Batches get their own queue, so cancelling either side leaves the other running
+  const [batchQueue] = useState(() => createJobQueue({ concurrency: DEFAULT_CONCURRENCY, maxRetries: DEFAULT_MAX_RETRIES }));
+  const [lastRun, setLastRun] = useState<GenerationRun | null>(null);
+  const [currentProject, setCurrentProject] = useState<ProjectRef | null>(null);
+  const [historyToken, setHistoryToken] = useState(0);
+  // Frames just restored from history are already saved as they are
+  const restoredFramesRef = useRef<GeneratedFrame[] | null>(null);
+  const [undoStack, setUndoStack] = useState<SequenceState[]>([]);
+  const [redoStack, setRedoStack] = useState<SequenceState[]>([]);
+  const [stabilizeEnabled, setStabilizeEnabled] = useState(false);
+  const [stabilization, setStabilization] = useState<StabilizationOptions>(DEFAULT_STABILIZATION);
+  const [stabilized, setStabilized] = useState<{ source: string[]; frames: string[] } | null>(null);
+  const [isStabilizing, setIsStabilizing] = useState(false);
+  const [stabilizeError, setStabilizeError] = useState<string | null>(null);
+  const [interpolation, setInterpolation] = useState<InterpolationOptions>({ multiplier: 1, method: 'optical-flow' });
+  const [interpolated, setInterpolated] = useState<{ source: string[]; frames: InterpolatedFrame[] } | null>(null);
+  const [isInterpolating, setIsInterpolating] = useState(false);
+  const [interpolateError, setInterpolateError] = useState<string | null>(null);
+  const [playback, setPlayback] = useState<PlaybackSettings>(DEFAULT_PLAYBACK);
+  const [isComparing, setIsComparing] = useState(false);
+  const [upscaleSize, setUpscaleSize] = useState<UpscaleSize>('2K');
+  // Frames are selected for upscaling unless unchecked, so new frames are included by default
+  const [upscaleSkipped, setUpscaleSkipped] = useState<number[]>([]);
+  const [upscaleStates, setUpscaleStates] = useState<Record<number, FrameJobState>>({});
+  const [showUpscaled, setShowUpscaled] = useState(true);
+  const [upscaleEngine, setUpscaleEngine] = useState<UpscaleEngine>('provider');
+  const [localUpscale, setLocalUpscale] = useState<LocalUpscaleOptions>(DEFAULT_LOCAL_UPSCALE);
+  const localUpscaleController = useRef<AbortController | null>(null);
+  const [appSettings, setAppSettings] = useState<AppSettings>(getSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [sampling, setSampling] = useState<SamplingParams>(() => ({ temperature: getSettings().defaultTemperature }));
+  const [variationsEnabled, setVariationsEnabled] = useState(false);
+  const [variationOptions, setVariationOptions] = useState<VariationOptions>(DEFAULT_VARIATIONS);
+  const [variations, setVariations] = useState<{ run: GenerationRun; takes: VariationTake[] } | null>(null);
+  const [isVariating, setIsVariating] = useState(false);
+  const [showVariations, setShowVariations] = useState(false);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [qualityEnabled, setQualityEnabled] = useState(true);
+  const [qualityOptions, setQualityOptions] = useState<QualityOptions>(DEFAULT_QUALITY);
+  const [quality, setQuality] = useState<{ source: string[]; results: (FrameQuality | null)[] } | null>(null);
+  const [isScoring, setIsScoring] = useState(false);
+  const [qualityError, setQualityError] = useState<string | null>(null);
+  // Automatic regenerations so far by frame id, counted against the retry budget
+  const [qualityRetries, setQualityRetries] = useState<Record<number, number>>({});
+  const frameImagesRef = useRef<string[]>([]);
+
+  const provider = getProvider(providerId);
+  const activeUpscaleEngine: UpscaleEngine = provider.capabilities.canUpscale ? upscaleEngine : 'local';
+  const upscaleVariant = activeUpscaleEngine === 'local' ? localUpscaleVariant(localUpscale) : upscaleSize;
+  // Keeps its identity while only frame metadata (e.g. holds) changes, so that doesn't re-run the workers
+  const nextImages = generatedFrames.map(f => (showUpscaled && f.upscales?.[upscaleVariant]) || f.imageUrl);
+  if (nextImages.length !== frameImagesRef.current.length || nextImages.some((f, i) => f !== frameImagesRef.current[i])) {
+    frameImagesRef.current = nextImages;
+  }
+  const frameImages = frameImagesRef.current;
+  // Stabilized frames are only used while they still match the current sequence
+  const stabilizedImages = stabilizeEnabled && stabilized
+    && stabilized.source.length === frameImages.length && stabilized.source.every((f, i) => f === frameImages[i])
+    ? stabilized.frames
+    : null;
+  const processedFrames = stabilizedImages ?? frameImages;
+  const frameQuality = qualityEnabled && quality
+    && quality.source.length === frameImages.length && quality.source.every((f, i) => f === frameImages[i])
+    ? quality.results
+    : null;
+  const interpolatedFrames = interpolation.multiplier > 1 && interpolated
+    && interpolated.source.length === processedFrames.length && interpolated.source.every((f, i) => f === processedFrames[i])
+    ? interpolated.frames
+    : null;
+  const displayFrames = interpolatedFrames ? interpolatedFrames.map(f => f.imageUrl) : processedFrames;
+  const readyFrames = displayFrames.filter(Boolean);
+  // Interpolated frames take a single interval; source frames keep their hold
+  const displayHolds = interpolatedFrames
+    ? interpolatedFrames.map(f => (f.interpolated ? 1 : generatedFrames[f.sourceIndex]?.hold))
+    : generatedFrames.map(f => f.hold);
+  const promptTemplate = [...BUILT_IN_PROMPT_TEMPLATES, ...userPresets].find(t => t.id === promptTemplateId) ?? DEFAULT_PROMPT_TEMPLATE;
+  const frameLabels = generatedFrames.map((frame, i) =>
+    frame.anchor === 'start' ? (lastRun?.endImage ? 'START' : 'ORIGINAL') : frame.anchor === 'end' ? 'END' : `FRAME ${i}`);
+  // Jobs write into slots by index, so the sequence can't be edited while any are in flight
+  const frameJobsActive = (status.frameStates ?? []).some(s => s.status === 'pending' || s.status === 'running');
+  const playbackFps = timing.fps * (interpolatedFrames ? interpolation.multiplier : 1);
+  const pathMarkers = hasPath(motion)
+    ? Array.from({ length: timing.frameCount }, (_, i) =>
+        evaluateMotion(motion, frameProgress(i + 1, timing.frameCount, timing.easing)).position!)
+    : undefined;
+
+  // Where the run's motion puts the masked subject in each frame; only motion runs have one.
+  // Each frame uses the progress it was made for, so edits keep subject and frame together;
+  // frames without one (e.g. inserted in-betweens of unknown position) aren't composited.
+  const frameProgressKey = generatedFrames.map(frame => (frame.anchor ? 'anchor' : frame.progress ?? '')).join();
+  const subjectComposite = useMemo((): SubjectComposite | undefined => {
+    if (!lastRun?.subjectMask || lastRun.endImage) return undefined;
+    const run = lastRun;
+    return {
+      mask: run.subjectMask!,
+      motion: generatedFrames.map(frame =>
+        (frame.anchor || frame.progress === undefined ? null : evaluateMotion(run.motion, frame.progress))),
+    };
+  }, [lastRun, frameProgressKey]);
+
+  useEffect(() => {
+    queue.setOptions({ concurrency, maxRetries });
+    batchQueue.setOptions({ concurrency, maxRetries });
+  }, [queue, batchQueue, concurrency, maxRetries]);
+
+  // Re-run stabilization in the background whenever the sequence settles
+  useEffect(() => {
+    if (!stabilizeEnabled || status.isGenerating || isUpscaling || frameJobsActive) return;
+    const controller = new AbortController();
+    const source = frameImages;
+    setIsStabilizing(true);
+    setStabilizeError(null);
+    stabilizeFrames(source, stabilization, subjectComposite, undefined, controller.signal)
+      .then(frames => setStabilized({ source, frames }))
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        // Shown next to the stabilization settings; the status banner is kept for generation errors
+        console.error("Stabilization failed", error);
+        setStabilizeError("Stabilization failed. Showing the unprocessed frames.");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsStabilizing(false);
+      });
+    return () => {
+      controller.abort();
+      setIsStabilizing(false);
+    };
+  }, [stabilizeEnabled, stabilization, subjectComposite, frameImages, status.isGenerating, isUpscaling, frameJobsActive]);
+
+  // Frames are judged against their neighbours, so the whole sequence is scored again as frames arrive
+  useEffect(() => {
+    if (!qualityEnabled || frameImages.length < 2) return;
+    const controller = new AbortController();
+    const source = frameImages;
+    setIsScoring(true);
+    setQualityError(null);
+    scoreFrames(source, generatedFrames.map(f => Boolean(f.anchor)), controller.signal)
+      .then(results => setQuality({ source, results }))
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        // Reported in the quality panel; the status banner is kept for generation errors
+        console.error("Quality check failed", error);
+        setQualityError("The quality check failed. Frames were not scored.");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsScoring(false);
+      });
+    return () => {
+      controller.abort();
+      setIsScoring(false);
+    };
+  }, [qualityEnabled, frameImages]);
+
+  // Once the sequence settles, flagged frames are regenerated until their budget runs out
+  useEffect(() => {
+    if (!qualityOptions.autoRegenerate || !frameQuality || !lastRun || status.isGenerating || isUpscaling || frameJobsActive) return;
+    const indices = framesToRegenerate(generatedFrames, frameQuality, qualityRetries, qualityOptions.retryBudget);
+    if (indices.length === 0) return;
+    setQualityRetries(prev => {
+      const next = { ...prev };
+      indices.forEach(i => {
+        next[generatedFrames[i].id] = (next[generatedFrames[i].id] ?? 0) + 1;
+      });
+      return next;
+    });
+    handleRegenerateFrames(indices);
+  }, [frameQuality, qualityOptions, status.isGenerating, isUpscaling, frameJobsActive]);
+
+  // Interpolation runs on the stabilized frames when stabilization is on
+  useEffect(() => {
+    if (interpolation.multiplier <= 1 || isStabilizing || status.isGenerating || isUpscaling || frameJobsActive) return;
+    const controller = new AbortController();
+    const source = stabilizedImages ?? frameImages;
+    setIsInterpolating(true);
+    setInterpolateError(null);
+    interpolateFrames(source, interpolation, undefined, controller.signal)
+      .then(frames => setInterpolated({ source, frames }))
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        // Shown next to the interpolation settings, like stabilization failures
+        console.error("Interpolation failed", error);
+        setInterpolateError("Frame interpolation failed. Showing the generated frames only.");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsInterpolating(false);
+      });
+    return () => {
+      controller.abort();
+      setIsInterpolating(false);
+    };
+  }, [interpolation, frameImages, stabilizedImages, isStabilizing, status.isGenerating, isUpscaling, frameJobsActive]);
+
+  // The current sequence as saved to history and project files
+  const projectSnapshot = (project: ProjectRef, run: GenerationRun): ProjectSnapshot => ({
+    ...project,
+    updatedAt: Date.now(),
+    settings: toRunSettings(run),
+    sourceImage: run.image,
+    endImage: run.endImage,
+    subjectMask: run.subjectMask,
+    frames: generatedFrames,
+    playback,
+  });
+
+  // Persist the current run whenever its frames change, so nothing paid for is lost on reload
+  useEffect(() => {
+    if (!currentProject || !lastRun || generatedFrames === restoredFramesRef.current) return;
+    const timer = window.setTimeout(() => {
+      saveProject(projectSnapshot(currentProject, lastRun))
+        .then(() => setHistoryToken(t => t + 1))
+        .catch(error => console.error("Failed to save run", error));
+    }, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [currentProject, lastRun, generatedFrames, playback]);
 
   const handleImageSelect = (base64: string) => {
     setOriginalImage(base64);
+    setSubjectMask(null);
     // Reset previous generation when new image is uploaded
     setGeneratedFrames([]);
-    setStatus({ isGenerating: false, completedFrames: 0, totalFrames: TOTAL_FRAMES });
+    setCurrentProject(null);
+    setUndoStack([]);
+    setRedoStack([]);
+    setStatus({ isGenerating: false, completedFrames: 0, totalFrames: timing.frameCount });
+  };
+
+  const handleUserPresetsChange = (presets: PromptTemplate[]) => {
+    setUserPresets(presets);
+    if (!saveUserPresets(presets)) {
+      alert("Your presets could not be stored in this browser and will be lost when the page is closed.");
+    }
+  };
+
+  // Frame 1 of a run with the current settings, as the template editor's preview
+  const renderPromptPreview = (template: PromptTemplate, kind: PromptKind) => {
+    if (kind === 'upscale') return buildUpscalePrompt(upscaleSize, template);
+    if (kind === 'inbetween') {
+      return buildInbetweenPrompt({
+        startImage: '',
+        endImage: '',
+        frameIndex: 1,
+        totalFrames: timing.frameCount,
+        progress: frameProgress(1, timing.frameCount + 1, timing.easing),
+        description: promptDescription,
+        template,
+      });
+    }
+    return buildMotionPrompt({
+      image: '',
+      frameIndex: 1,
+      totalFrames: timing.frameCount,
+      progress: frameProgress(1, timing.frameCount, timing.easing),
+      description: promptDescription,
+      motion,
+      subjectMask: subjectMask ?? undefined,
+      chained: kind === 'chained' ? { previousProgress: 0, referenceImage: useReference ? originalImage ?? undefined : undefined } : undefined,
+      template,
+    });
+  };
+
+  // The mask belongs to the uploaded image, so edits also apply to the run made from it
+  const handleSubjectMaskSave = (mask: string | null) => {
+    setSubjectMask(mask);
+    setIsMasking(false);
+    if (lastRun && !lastRun.endImage && lastRun.image === originalImage) {
+      // Save a just-restored run too, whose frames alone wouldn't trigger it
+      restoredFramesRef.current = null;
+      setLastRun({ ...lastRun, subjectMask: mask ?? undefined });
+    }
+  };
+
+  const handleTimingChange = (next: MotionTiming) => {
+    // Exports follow the playback rate unless changed separately afterwards
+    if (next.fps !== timing.fps) setExportFps(Math.min(50, next.fps * interpolation.multiplier));
+    setTiming(next);
+    if (!status.isGenerating) {
+      setStatus(prev => ({ ...prev, totalFrames: next.frameCount }));
+    }
+  };
+
+  const updateFrameState = (index: number, state: FrameJobState) => {
+    setStatus(prev => {
+      const frameStates = [...(prev.frameStates ?? [])];
+      frameStates[index] = state;
+      return { ...prev, frameStates };
+    });
+  };
+
+  // Runs a frame job through the shared queue and slots the result in place
+  const fillFrame = async (frameIndex: number, generate: (signal: AbortSignal) => Promise<FrameResult>) => {
+    const result = await queue.enqueue(
+      generate,
+      (jobStatus, attempts, error) => updateFrameState(frameIndex, { status: jobStatus, attempts, error })
+    );
+
+    setGeneratedFrames(prev => {
+      const next = [...prev];
+      // Upscales of the previous image no longer apply
+      next[frameIndex] = { ...next[frameIndex], ...result, upscales: undefined };
+      return next;
+    });
+    setStatus(prev => ({ ...prev, completedFrames: prev.completedFrames + 1 }));
+    return result.imageUrl;
+  };
+
+  // Generates one frame of a run. In chained mode `source` is the previous frame; otherwise it is the original.
+  const runFrameJob = (run: GenerationRun, frameIndex: number, source: string = run.image) =>
+    fillFrame(frameIndex, signal => requestRunFrame(run, frameIndex, source, signal));
+
+  // After edits the sequence length differs from the original run, so frame
+  // progress is recomputed from each frame's current position
+  const editedRun = (run: GenerationRun, description: string = run.description): GenerationRun => ({
+    ...run,
+    frameCount: generatedFrames.filter(f => !f.anchor).length,
+    description,
+  });
+
+  // Generates frames one after another, each from the previous result. Stops at the
+  // first failure and marks the frames after it as blocked. Returns the failure, if any.
+  const runChain = async (run: GenerationRun, fromIndex: number, toIndex: number, source: string) => {
+    let previous = source;
+    for (let i = fromIndex; i <= toIndex; i++) {
+      try {
+        previous = await runFrameJob(run, i, previous);
+      } catch (error) {
+        for (let j = i + 1; j <= toIndex; j++) {
+          updateFrameState(j, { status: 'failed', attempts: 0, error: `Waiting on frame ${i}` });
+        }
+        return { error, failed: toIndex - i + 1 };
+      }
+    }
+    return null;
+  };
+
+  // The run the current settings describe, starting from the uploaded image(s)
+  const currentRun = (image: string): GenerationRun => ({
+    provider,
+    // In-betweens only depend on the two keyframes, so they always run in parallel
+    mode: keyframeMode ? 'parallel' : generationMode,
+    useReference,
+    image,
+    endImage: keyframeMode ? endImage ?? undefined : undefined,
+    // In-betweens are constrained by both keyframes already
+    subjectMask: keyframeMode ? undefined : subjectMask ?? undefined,
+    frameCount: timing.frameCount,
+    fps: timing.fps,
+    easing: timing.easing,
+    description: promptDescription,
+    motion,
+    template: promptTemplate,
+    sampling,
+    // Copied, since the provider's models follow the settings
+    models: { ...provider.models },
+  });
+
+  // Replaces the editor's sequence with a new one, saved as a new project
+  const startSequence = (run: GenerationRun, frames: GeneratedFrame[]) => {
+    setLastRun(run);
+    setCurrentProject({
+      id: createProjectId(),
+      name: run.description.trim().slice(0, 40) || 'Untitled run',
+      createdAt: Date.now(),
+    });
+    setGeneratedFrames(frames);
+    setUndoStack([]);
+    setRedoStack([]);
+    setUpscaleSkipped([]);
+    setUpscaleStates({});
+    setQualityRetries({});
   };
 
   const handleGenerate = async () => {
     if (!originalImage) return;
 
-    setStatus({ isGenerating: true, completedFrames: 0, totalFrames: TOTAL_FRAMES });
-    setGeneratedFrames([]);
-    
+    if (keyframeMode && !endImage) return;
+
+    const run = currentRun(originalImage);
+    if (variationsEnabled) {
+      await handleGenerateVariations(run);
+      return;
+    }
+
     // We include the original as the first frame for context in the UI, 
-    // but we will generate TOTAL_FRAMES NEW frames to create the movement.
-    
-    try {
-      const promises = [];
-      
-      // Parallel generation for speed. 
-      for (let i = 1; i <= TOTAL_FRAMES; i++) {
-        // Stagger requests slightly to avoid hitting rate limits instantly if needed, 
-        // though Promise.all fires them concurrently.
-        const delay = i * 100; 
-        
-        promises.push(
-          new Promise(resolve => setTimeout(resolve, delay)).then(() => 
-            generateMotionFrame(originalImage, i, TOTAL_FRAMES, promptDescription, selectedDirection)
-              .then(frame => {
-                setStatus(prev => ({ ...prev, completedFrames: prev.completedFrames + 1 }));
-                return { index: i, frame };
-              })
-          )
-        );
+    // but we will generate frameCount NEW frames to create the movement.
+    // Empty slots are filled in as frames complete. In keyframe mode the end frame closes the sequence.
+    const frames = createRunFrames(run);
+    startSequence(run, frames);
+    setStatus({
+      isGenerating: true,
+      completedFrames: 0,
+      totalFrames: run.frameCount,
+      frameStates: initialFrameStates(frames),
+    });
+
+    let errors: unknown[] = [];
+    let failedCount = 0;
+    if (run.mode === 'chained') {
+      const failure = await runChain(run, 1, run.frameCount, run.image);
+      if (failure) {
+        errors = [failure.error];
+        failedCount = failure.failed;
       }
+    } else {
+      const jobs = Array.from({ length: run.frameCount }, (_, i) => runFrameJob(run, i + 1));
+      const results = await Promise.allSettled(jobs);
+      errors = results
+        .filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+        .map(r => r.reason);
+      failedCount = errors.length;
+    }
+    const cancelled = errors.some(e => e instanceof JobCancelledError);
 
-      const results = await Promise.all(promises);
-      
-      // Sort by index to maintain sequence order
-      const sortedFrames = results
-        .sort((a: any, b: any) => a.index - b.index)
-        .map((item: any) => item.frame);
+    if (errors.length > 0) {
+      console.error("Generation failed for some frames", errors);
+    }
+
+    setStatus(prev => ({
+      ...prev,
+      isGenerating: false,
+      error: cancelled
+        ? "Generation cancelled. Completed frames were kept."
+        : failedCount > 0
+          ? `${failedCount} of ${run.frameCount} frames failed. Retry them from the thumbnail strip.`
+          : undefined,
+    }));
+  };
 
-      // Combine original + generated
-      setGeneratedFrames([originalImage, ...sortedFrames]);
-      setStatus(prev => ({ ...prev, isGenerating: false }));
+  // Generates several takes of the run side by side; the editor keeps its sequence until one is applied
+  const handleGenerateVariations = async (run: GenerationRun) => {
+    // A seed fixed in the settings anchors the takes, so the whole set can be reproduced
+    const takes = createTakes(run, variationSampling(variationOptions, run.sampling?.seed));
+    setVariations({ run, takes });
+    setShowVariations(true);
+    setIsVariating(true);
+    setStatus(prev => ({ ...prev, isGenerating: true, error: undefined, completedFrames: 0, totalFrames: takes.length * run.frameCount }));
 
-    } catch (error) {
-      console.error("Generation failed", error);
-      setStatus(prev => ({ 
-        ...prev, 
-        isGenerating: false, 
-        error: "Failed to generate frames. Please try again or use a different image." 
-      }));
+    const errors = await runVariations(run, takes, queue, (index, take) =>
+      setVariations(prev => prev && { ...prev, takes: prev.takes.map((other, i) => (i === index ? take : other)) }));
+    if (errors.length > 0) {
+      console.error("Some variation frames failed", errors);
     }
+    setIsVariating(false);
+    setStatus(prev => ({
+      ...prev,
+      isGenerating: false,
+      error: errors.some(e => e instanceof JobCancelledError)
+        ? "Variations cancelled. Finished frames were kept."
+        : errors.length > 0
+          ? "Some frames of the takes failed. Complete takes can still be kept, or frames picked across takes."
+          : undefined,
+    }));
+  };
+
+  // The applied run records the sampling of the take most frames came from, so retries match it
+  const handleApplyVariation = (frames: GeneratedFrame[], take: number) => {
+    if (!variations) return;
+    const run = { ...variations.run, sampling: variations.takes[take].sampling };
+    startSequence(run, frames);
+    setStatus(prev => ({ ...prev, completedFrames: 0, totalFrames: run.frameCount, frameStates: initialFrameStates(frames) }));
+    setShowVariations(false);
+  };
+
+  const handleCancelGenerate = () => {
+    queue.cancel();
   };
 
-  // Helper to load image for canvas
-  const loadImage = (src: string): Promise<HTMLImageElement> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => resolve(img);
-      img.onerror = reject;
-      img.src = src;
+  // Retries a failed frame, or regenerates a finished one with an optional prompt override
+  const handleRetryFrame = (index: number, promptOverride?: string) => {
+    const run = lastRun;
+    if (!run || !generatedFrames[index] || generatedFrames[index].anchor) return;
+    const target = editedRun(run, promptOverride ?? run.description);
+
+    if (run.mode === 'chained') {
+      const source = generatedFrames[index - 1].imageUrl;
+      if (!source) {
+        setStatus(prev => ({ ...prev, error: `Frame ${index - 1} must be generated before frame ${index}.` }));
+        return;
+      }
+      // Continue the chain through the frames that were blocked behind this one.
+      // An override only applies to the frame it was given for.
+      let end = index;
+      while (!promptOverride && end + 1 < generatedFrames.length
+        && !generatedFrames[end + 1].anchor && !generatedFrames[end + 1].imageUrl) end++;
+      setStatus(prev => ({ ...prev, error: undefined }));
+      runChain(target, index, end, source).then(failure => {
+        if (failure) console.error(`Retry of frame ${index} failed`, failure.error);
+      });
+      return;
+    }
+
+    setStatus(prev => ({ ...prev, error: undefined }));
+    runFrameJob(target, index).catch(error => console.error(`Retry of frame ${index} failed`, error));
+  };
+
+  const currentSequence = (): SequenceState => ({ frames: generatedFrames, frameStates: status.frameStates ?? [] });
+
+  const restoreSequence = (sequence: SequenceState) => {
+    // Upscales aren't part of the edit history; frames keep the ones made since the snapshot
+    const current = new Map<number, GeneratedFrame>(generatedFrames.map(frame => [frame.id, frame]));
+    setGeneratedFrames(sequence.frames.map(frame => {
+      const latest = current.get(frame.id);
+      return latest?.upscales && latest.imageUrl === frame.imageUrl ? { ...frame, upscales: latest.upscales } : frame;
+    }));
+    setStatus(prev => ({ ...prev, frameStates: sequence.frameStates }));
+  };
+
+  const recordUndo = () => {
+    setUndoStack(prev => [...prev, currentSequence()].slice(-MAX_UNDO_STEPS));
+    setRedoStack([]);
+  };
+
+  const commitEdit = (next: SequenceState) => {
+    recordUndo();
+    restoreSequence(next);
+  };
+
+  const handleUndo = () => {
+    if (undoStack.length === 0 || frameJobsActive) return;
+    setRedoStack(prev => [...prev, currentSequence()]);
+    restoreSequence(undoStack[undoStack.length - 1]);
+    setUndoStack(prev => prev.slice(0, -1));
+  };
+
+  const handleRedo = () => {
+    if (redoStack.length === 0 || frameJobsActive) return;
+    setUndoStack(prev => [...prev, currentSequence()]);
+    restoreSequence(redoStack[redoStack.length - 1]);
+    setRedoStack(prev => prev.slice(0, -1));
+  };
+
+  // Generates a new frame halfway between two neighbours
+  const handleInsertFrame = (index: number) => {
+    const run = lastRun;
+    const before = generatedFrames[index]?.imageUrl;
+    const after = generatedFrames[index + 1]?.imageUrl;
+    if (!run || !before || !after) return;
+
+    const { frames, frameStates } = currentSequence();
+    // Halfway between the neighbours, when both know their progress
+    const [from, to] = [frames[index].progress ?? (frames[index].anchor === 'start' ? 0 : undefined), frames[index + 1].progress];
+    commitEdit({
+      frames: insertItem(frames, index + 1, { ...createFrame(), progress: from !== undefined && to !== undefined ? (from + to) / 2 : undefined }),
+      frameStates: insertItem(frameStates, index + 1, { status: 'pending', attempts: 0 }),
     });
+    setStatus(prev => ({ ...prev, error: undefined }));
+    // Like run frames, the result records the sampling it was made with
+    fillFrame(index + 1, async signal => ({
+      ...await run.provider.generateInbetween({
+        startImage: before,
+        endImage: after,
+        frameIndex: 1,
+        totalFrames: 1,
+        progress: 0.5,
+        description: run.description,
+        template: run.template,
+        sampling: run.sampling,
+        signal,
+      }),
+      sampling: run.sampling,
+    })).catch(error => console.error(`Inserting a frame after ${index} failed`, error));
+  };
+
+  // Regenerates several frames as one undoable edit
+  const handleRegenerateFrames = (indices: number[]) => {
+    recordUndo();
+    indices.forEach(index => handleRetryFrame(index));
+  };
+
+  const frameEditor: FrameEditHandlers = {
+    regenerate: (index, promptOverride) => {
+      recordUndo();
+      handleRetryFrame(index, promptOverride);
+    },
+    duplicate: (index) => {
+      const { frames, frameStates } = currentSequence();
+      const source = frames[index];
+      commitEdit({
+        frames: insertItem(frames, index + 1, { ...createFrame(source.imageUrl, source.promptUsed), upscales: source.upscales, progress: source.progress }),
+        frameStates: insertItem(frameStates, index + 1, { status: 'done', attempts: 0 }),
+      });
+    },
+    remove: (index) => {
+      const { frames, frameStates } = currentSequence();
+      commitEdit({ frames: removeItem(frames, index), frameStates: removeItem(frameStates, index) });
+    },
+    insertAfter: handleInsertFrame,
+    move: (from, to) => {
+      const { frames, frameStates } = currentSequence();
+      commitEdit({ frames: moveItem(frames, from, to), frameStates: moveItem(frameStates, from, to) });
+    },
+    isLocked: (index) => Boolean(generatedFrames[index]?.anchor),
+    disabled: !lastRun || status.isGenerating || isUpscaling || frameJobsActive,
   };
 
-  const getClosestAspectRatio = async (imgSrc: string): Promise<string> => {
-    const img = await loadImage(imgSrc);
-    const ratio = img.width / img.height;
-    
-    // Supported: 1:1 (1.0), 3:4 (0.75), 4:3 (1.33), 9:16 (0.5625), 16:9 (1.77)
-    const supportedRatios = [
-      { id: "1:1", val: 1.0 },
-      { id: "3:4", val: 0.75 },
-      { id: "4:3", val: 1.333 },
-      { id: "9:16", val: 0.5625 },
-      { id: "16:9", val: 1.778 }
-    ];
-
-    const closest = supportedRatios.reduce((prev, curr) => {
-      return (Math.abs(curr.val - ratio) < Math.abs(prev.val - ratio) ? curr : prev);
+  // Edits address source frames by index, so they are only offered while no interpolated frames are shown
+  const playerEditor = interpolatedFrames ? undefined : frameEditor;
+
+  const handleHoldChange = (index: number, hold: number) => {
+    const { frames, frameStates } = currentSequence();
+    commitEdit({
+      frames: frames.map((frame, i) => (i === index ? { ...frame, hold: hold > 1 ? hold : undefined } : frame)),
+      frameStates,
     });
+  };
+
+  // Frames without an image (failed or still generating) can't be exported, so ask before leaving them out
+  const confirmMissingFrames = () => {
+    const missing = displayFrames.length - readyFrames.length;
+    return missing === 0 || window.confirm(
+      `${missing} of ${displayFrames.length} frames ${missing === 1 ? 'has' : 'have'} no image and will be left out of the export. Export anyway?`);
+  };
 
-    return closest.id;
+  // Exports play exactly like the preview: mode, speed and holds become per-frame durations
+  const exportTimeline = () => {
+    const ready = displayFrames.map((frame, i) => (frame ? i : -1)).filter(i => i >= 0);
+    const timeline = buildTimeline(ready, displayHolds, exportFps, playback);
+    return {
+      frames: timeline.map(entry => displayFrames[entry.index]),
+      durations: timeline.map(entry => entry.duration),
+      loopCount: playback.mode === 'once' ? 1 : exportLoopCount,
+    };
+  };
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) for sequence edits, outside text fields.
+  // The listener is registered once and reaches the current handlers through the ref.
+  const undoRedoRef = useRef({ undo: handleUndo, redo: handleRedo });
+  undoRedoRef.current = { undo: handleUndo, redo: handleRedo };
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (!(e.ctrlKey || e.metaKey) || target?.closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoRedoRef.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        undoRedoRef.current.redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const handleSaveSettings = (next: AppSettings) => {
+    const hadKey = Boolean(activeApiKey());
+    if (!saveSettings(next)) {
+      alert("Your settings, including the API key, could not be stored in this browser. They apply until the page is closed.");
+    }
+    setAppSettings(next);
+    // The app starts offline without a key, so move to Gemini once one is available
+    if (!hadKey && activeApiKey() && !status.isGenerating && !isUpscaling) setProviderId(geminiProvider.id);
+    if (next.defaultTemperature !== appSettings.defaultTemperature) {
+      setSampling(prev => ({ ...prev, temperature: next.defaultTemperature }));
+    }
   };
 
   const handleUpscale = async () => {
-    if (generatedFrames.length === 0) return;
+    const size = upscaleSize;
+    const targets = generatedFrames.filter(f => f.imageUrl && !f.upscales?.[size] && !upscaleSkipped.includes(f.id));
+    if (targets.length === 0) return;
 
-    // Check for API key for Pro model
-    if (window.aistudio && window.aistudio.hasSelectedApiKey) {
+    // Check for API key for Pro model; a key entered in settings is used as it is
+    if (provider.capabilities.requiresApiKey && !appSettings.apiKey && window.aistudio && window.aistudio.hasSelectedApiKey) {
       const hasKey = await window.aistudio.hasSelectedApiKey();
       if (!hasKey && window.aistudio.openSelectKey) {
         try {
@@ -137,127 +774,240 @@ const App: React.FC = () => {
     }
 
     setIsUpscaling(true);
-    setStatus(prev => ({ ...prev, completedFrames: 0, totalFrames: generatedFrames.length }));
+    setStatus(prev => ({ ...prev, error: undefined, completedFrames: 0, totalFrames: targets.length }));
 
     try {
       // Determine aspect ratio from first frame to ensure consistency
-      const aspectRatio = await getClosestAspectRatio(generatedFrames[0]);
-      console.log(`Upscaling with aspect ratio: ${aspectRatio}`);
+      const aspectRatio = await getClosestAspectRatio(generatedFrames[0].imageUrl, provider.capabilities.aspectRatios);
 
-      const upscaledPromises = generatedFrames.map(async (frame, index) => {
-        // Stagger slightly
-        await new Promise(r => setTimeout(r, index * 200));
-        const upscaled = await upscaleFrame(frame, aspectRatio);
+      // Each result is stored as soon as it arrives, so failures elsewhere (or a reload) don't lose it
+      const results = await Promise.allSettled(targets.map(frame => queue.enqueue(
+        () => provider.upscaleFrame(frame.imageUrl, aspectRatio, size, promptTemplate),
+        (jobStatus, attempts, error) => setUpscaleStates(prev => ({ ...prev, [frame.id]: { status: jobStatus, attempts, error } })),
+      ).then(upscaled => {
+        setGeneratedFrames(prev => prev.map(f => (f.id === frame.id && f.imageUrl === frame.imageUrl
+          ? { ...f, upscales: { ...f.upscales, [size]: upscaled } }
+          : f)));
         setStatus(prev => ({ ...prev, completedFrames: prev.completedFrames + 1 }));
-        return { index, frame: upscaled };
-      });
-
-      const results = await Promise.all(upscaledPromises);
-      const sortedUpscaled = results
-        .sort((a, b) => a.index - b.index)
-        .map(item => item.frame);
-
-      setGeneratedFrames(sortedUpscaled);
+      })));
 
+      const errors = results.flatMap(r => (r.status === 'rejected' ? [r.reason] : []));
+      if (errors.length > 0 && !errors.every(e => e instanceof JobCancelledError)) {
+        setStatus(prev => ({
+          ...prev,
+          error: `${errors.length} of ${targets.length} frames failed to upscale. Finished frames are kept; upscale again to retry the rest, or use the local upscaler.`,
+        }));
+      }
     } catch (error) {
       console.error("Upscale failed", error);
-      alert("Upscale failed. Please check your API key quotas or try again.");
+      setStatus(prev => ({ ...prev, error: "Upscale failed. Please check your API key quotas or try again." }));
     } finally {
       setIsUpscaling(false);
-      setStatus(prev => ({ ...prev, isGenerating: false }));
     }
   };
 
-  const handleDownloadVideo = async () => {
-    if (generatedFrames.length === 0) return;
-    setIsDownloading(true);
+  // Resamples the selected frames on this device; no key, network or cost involved
+  const handleLocalUpscale = async () => {
+    const options = localUpscale;
+    const variant = localUpscaleVariant(options);
+    const targets = generatedFrames.filter(f => f.imageUrl && !upscaleSkipped.includes(f.id));
+    if (targets.length === 0) return;
+
+    // The worker handles the batch as a whole, so every target shares its state
+    const markTargets = (state: FrameJobState) =>
+      setUpscaleStates(prev => ({ ...prev, ...Object.fromEntries(targets.map(f => [f.id, state])) }));
+
+    const controller = new AbortController();
+    localUpscaleController.current = controller;
+    setIsUpscaling(true);
+    setStatus(prev => ({ ...prev, error: undefined, completedFrames: 0, totalFrames: targets.length }));
+    markTargets({ status: 'running', attempts: 1 });
 
     try {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error("Could not get canvas context");
-
-      // Load first image to set dimensions
-      const firstFrame = await loadImage(generatedFrames[0]);
-      canvas.width = firstFrame.width;
-      canvas.height = firstFrame.height;
-
-      // Determine supported MIME type
-      let mimeType = 'video/webm';
-      if (!MediaRecorder.isTypeSupported(mimeType)) {
-        mimeType = 'video/mp4'; // Try mp4 (Safari)
-        if (!MediaRecorder.isTypeSupported(mimeType)) {
-          alert("Video recording not supported on this browser. Please try downloading frames as ZIP.");
-          setIsDownloading(false);
-          return;
-        }
+      const results = await upscaleFramesLocally(
+        targets.map(f => f.imageUrl),
+        options,
+        completed => setStatus(prev => ({ ...prev, completedFrames: completed })),
+        controller.signal,
+      );
+      const byId = new Map<number, { source: string; upscaled: string }>(targets.map((frame, i) => [frame.id, { source: frame.imageUrl, upscaled: results[i] }]));
+      setGeneratedFrames(prev => prev.map(f => {
+        const result = byId.get(f.id);
+        return result && result.upscaled && result.source === f.imageUrl
+          ? { ...f, upscales: { ...f.upscales, [variant]: result.upscaled } }
+          : f;
+      }));
+      markTargets({ status: 'done', attempts: 1 });
+    } catch (error) {
+      const cancelled = controller.signal.aborted;
+      if (!cancelled) {
+        console.error("Local upscale failed", error);
+        setStatus(prev => ({ ...prev, error: "Local upscale failed. The frames may be too large for this device at that scale." }));
       }
+      markTargets({ status: 'failed', attempts: 1, error: cancelled ? 'Cancelled' : errorMessage(error) });
+    } finally {
+      localUpscaleController.current = null;
+      setIsUpscaling(false);
+    }
+  };
 
-      const stream = canvas.captureStream(30); // Capture at 30fps stream capability
-      const recorder = new MediaRecorder(stream, { mimeType });
-      const chunks: Blob[] = [];
-
-      recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) chunks.push(e.data);
-      };
-
-      recorder.onstop = () => {
-        const blob = new Blob(chunks, { type: mimeType });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `motion-gen-${Date.now()}.${mimeType === 'video/mp4' ? 'mp4' : 'webm'}`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-        setIsDownloading(false);
-      };
-
-      recorder.start();
-
-      // Draw frames with delay
-      // 4 FPS = 250ms per frame
-      for (const frameBase64 of generatedFrames) {
-        const img = await loadImage(frameBase64);
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        ctx.drawImage(img, 0, 0);
-        await new Promise(r => setTimeout(r, 250)); 
-      }
-      
-      // Stop recording
-      recorder.stop();
+  const handleOpenProject = (project: ProjectSnapshot) => {
+    const { settings } = project;
+    const restoredProvider = PROVIDERS.find(p => p.id === settings.providerId) ?? provider;
+    const keyframes = Boolean(project.endImage);
+
+    setOriginalImage(project.sourceImage);
+    setEndImage(project.endImage ?? null);
+    setSubjectMask(project.subjectMask ?? null);
+    setKeyframeMode(keyframes);
+    setPromptDescription(settings.description);
+    setMotion(settings.motion);
+    setTiming(settings.timing);
+    setExportFps(settings.timing.fps);
+    setGenerationMode(settings.mode);
+    setUseReference(settings.useReference);
+    setSampling(settings.sampling ?? DEFAULT_SAMPLING);
+    // Retries keep the run's own copy of the template; the picker only follows it while it still exists
+    if (settings.promptTemplate && [...BUILT_IN_PROMPT_TEMPLATES, ...userPresets].some(t => t.id === settings.promptTemplate!.id)) {
+      setPromptTemplateId(settings.promptTemplate.id);
+    }
+    setProviderId(restoredProvider.id);
+    setLastRun(fromRunSettings(settings, restoredProvider, {
+      image: project.sourceImage,
+      endImage: project.endImage,
+      subjectMask: project.subjectMask,
+    }));
+    setCurrentProject({ id: project.id, name: project.name, createdAt: project.createdAt });
+    setPlayback(project.playback ?? DEFAULT_PLAYBACK);
+    restoredFramesRef.current = project.frames;
+    setGeneratedFrames(project.frames);
+    setUndoStack([]);
+    setRedoStack([]);
+    setUpscaleSkipped([]);
+    setUpscaleStates({});
+    setQualityRetries({});
+    // Frames missing from the saved run can be retried from the thumbnail strip
+    setStatus({
+      isGenerating: false,
+      completedFrames: 0,
+      totalFrames: settings.timing.frameCount,
+      frameStates: project.frames.map((frame): FrameJobState => frame.imageUrl
+        ? { status: 'done', attempts: 0 }
+        : { status: 'failed', attempts: 0, error: 'Not generated' }),
+    });
+  };
+
+  // Every batch image runs with the editor's current settings, apart from its row's overrides
+  const handleBatchStart = async () => {
+    const shared: GenerationRun = {
+      provider,
+      mode: generationMode,
+      useReference,
+      image: '',
+      frameCount: timing.frameCount,
+      fps: timing.fps,
+      easing: timing.easing,
+      description: promptDescription,
+      motion,
+      template: promptTemplate,
+      sampling,
+      models: { ...provider.models },
+    };
+    setIsBatchRunning(true);
+    try {
+      await runBatch(batchItems, shared, batchQueue, item =>
+        setBatchItems(prev => prev.map(other => (other.id === item.id ? item : other))));
+    } finally {
+      setIsBatchRunning(false);
+      setHistoryToken(t => t + 1);
+    }
+  };
+
+  // Batch items are saved like any run, so they open in the editor the same way
+  const handleOpenBatchItem = (item: BatchItem) => {
+    if (!item.settings) return;
+    const now = Date.now();
+    handleOpenProject({
+      id: item.projectId ?? createProjectId(),
+      name: item.name,
+      createdAt: now,
+      updatedAt: now,
+      settings: item.settings,
+      sourceImage: item.image,
+      frames: item.frames,
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
+  const handleDownloadBatch = async () => {
+    setIsDownloading(true);
+    try {
+      downloadBlob(await exportBatch(batchItems), `motion-gen-batch-${Date.now()}.zip`);
+    } catch (error) {
+      console.error("Batch ZIP creation failed", error);
+      alert("Failed to create the batch ZIP archive.");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleInterpolationChange = (next: InterpolationOptions) => {
+    // Keep the exported duration the same when adding frames
+    if (next.multiplier !== interpolation.multiplier) setExportFps(Math.min(50, timing.fps * next.multiplier));
+    setInterpolation(next);
+  };
+
+  const handleDownloadVideo = async () => {
+    if (readyFrames.length === 0 || !confirmMissingFrames()) return;
+    setIsDownloading(true);
+
+    try {
+      const { frames, durations } = exportTimeline();
+      const { blob, extension } = await exportVideo(frames, {
+        container: videoContainer,
+        fps: exportFps,
+        durations,
+        bitrate: videoBitrate,
+        height: videoHeight || undefined,
+      });
+      downloadBlob(blob, `motion-gen-${Date.now()}.${extension}`);
     } catch (error) {
       console.error("Video creation failed", error);
+      alert(`Failed to create video: ${errorMessage(error)} Please try downloading frames as ZIP.`);
+    } finally {
       setIsDownloading(false);
-      alert("Failed to create video.");
     }
   };
 
   const handleDownloadZip = async () => {
-    if (generatedFrames.length === 0) return;
+    if (readyFrames.length === 0 || !confirmMissingFrames()) return;
     setIsDownloading(true);
 
     try {
       const zip = new JSZip();
       
-      generatedFrames.forEach((frame, index) => {
+      const ready = displayFrames.map((frame, i) => (frame ? i : -1)).filter(i => i >= 0);
+      const filenames = new Map<number, string>();
+      ready.forEach((frameIndex, index) => {
         // Remove data URL prefix
-        const data = frame.replace(/^data:image\/\w+;base64,/, "");
+        const data = displayFrames[frameIndex].replace(/^data:image\/\w+;base64,/, "");
         const filename = `frame_${String(index + 1).padStart(3, '0')}.png`;
+        filenames.set(frameIndex, filename);
         zip.file(filename, data, { base64: true });
       });
 
+      // Frames are stored once; the timeline lists the playback order with durations
+      const timeline = buildTimeline(ready, displayHolds, exportFps, playback);
+      zip.file('timing.json', JSON.stringify({
+        fps: exportFps,
+        mode: playback.mode,
+        speed: playback.speed,
+        loopCount: playback.mode === 'once' ? 1 : exportLoopCount,
+        timeline: timeline.map(entry => ({ file: filenames.get(entry.index), duration: Math.round(entry.duration) })),
+      }, null, 2));
+
       const content = await zip.generateAsync({ type: "blob" });
-      const url = URL.createObjectURL(content);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `motion-gen-frames-${Date.now()}.zip`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(content, `motion-gen-frames-${Date.now()}.zip`);
       
     } catch (error) {
       console.error("ZIP creation failed", error);
@@ -267,6 +1017,87 @@ const App: React.FC = () => {
     }
   };
 
+  // Bundles the run with its edit history into a single file a teammate can open
+  const handleDownloadProject = async () => {
+    if (!currentProject || !lastRun) return;
+    setIsDownloading(true);
+    try {
+      const blob = await exportProjectBundle({
+        project: projectSnapshot(currentProject, lastRun),
+        undo: undoStack,
+        redo: redoStack,
+      });
+      const name = currentProject.name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'motion-gen-project';
+      downloadBlob(blob, `${name}${BUNDLE_EXTENSION}`);
+    } catch (error) {
+      console.error("Project export failed", error);
+      alert("Failed to create the project file.");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const { project, undo, redo } = await readProjectBundle(file);
+      // Saved under a new id, so importing never overwrites a run already in history
+      const imported = { ...project, id: createProjectId() };
+      await saveProject(imported);
+      handleOpenProject(imported);
+      setUndoStack(undo.slice(-MAX_UNDO_STEPS));
+      setRedoStack(redo);
+      setHistoryToken(t => t + 1);
+    } catch (error) {
+      console.error("Project import failed", error);
+      alert(error instanceof Error ? error.message : "Could not open this project file.");
+    }
+  };
+
+  const handleDownloadSpriteSheet = async () => {
+    if (readyFrames.length === 0 || !confirmMissingFrames()) return;
+    setIsDownloading(true);
+
+    try {
+      // Each frame once, in order, with the time it is shown for; the playback mode goes into the metadata
+      const ready = displayFrames.map((frame, i) => (frame ? i : -1)).filter(i => i >= 0);
+      const timeline = buildTimeline(ready, displayHolds, exportFps, { ...playback, mode: 'loop' });
+      const blob = await exportSpriteSheet(
+        timeline.map((entry, i) => ({
+          image: displayFrames[entry.index],
+          name: `frame_${String(i + 1).padStart(3, '0')}.png`,
+          duration: entry.duration,
+        })),
+        spriteSheet,
+        playback.mode,
+      );
+      downloadBlob(blob, `motion-gen-spritesheet-${Date.now()}.zip`);
+    } catch (error) {
+      console.error("Sprite sheet creation failed", error);
+      alert(`Failed to create the sprite sheet: ${errorMessage(error)}`);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleDownloadAnimated = async (format: 'gif' | 'apng') => {
+    if (readyFrames.length === 0 || !confirmMissingFrames()) return;
+    setIsDownloading(true);
+
+    try {
+      const { frames, durations, loopCount } = exportTimeline();
+      const options = { fps: exportFps, durations, loopCount, dither: gifDither };
+      const blob = format === 'gif'
+        ? await exportGif(frames, options)
+        : await exportApng(frames, options);
+      downloadBlob(blob, `motion-gen-${Date.now()}.${format === 'gif' ? 'gif' : 'png'}`);
+    } catch (error) {
+      console.error(`${format.toUpperCase()} creation failed`, error);
+      alert(`Failed to create ${format.toUpperCase()}: ${errorMessage(error)}`);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 selection:bg-indigo-500/30">
       <header className="border-b border-slate-800 bg-slate-900/50 backdrop-blur-md sticky top-0 z-10">
@@ -279,8 +1110,17 @@ const App: React.FC = () => {
               MotionGen AI
             </h1>
           </div>
-          <div className="text-sm text-slate-400 hidden sm:block">
-            Powered by Gemini 2.5 Flash
+          <div className="flex items-center gap-3">
+            <div className="text-sm text-slate-400 hidden sm:block">
+              Powered by {provider.capabilities.requiresApiKey ? modelLabel(provider.models.generation) : provider.name}
+            </div>
+            <button
+              onClick={() => setShowSettings(true)}
+              title="Settings"
+              className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800"
+            >
+              <Settings className="w-5 h-5" />
+            </button>
           </div>
         </div>
       </header>
@@ -293,7 +1133,7 @@ const App: React.FC = () => {
             Bring your photos to life
           </h2>
           <p className="text-slate-400 max-w-2xl mx-auto text-lg">
-            Upload a static image, choose a direction, and watch AI generate a 10-frame motion sequence.
+            Upload a static image, choose how it moves, and watch AI generate a {timing.frameCount}-frame motion sequence.
           </p>
         </section>
 
@@ -310,7 +1150,55 @@ const App: React.FC = () => {
               <ImageUploader 
                 onImageSelect={handleImageSelect} 
                 selectedImage={originalImage} 
+                endImage={endImage}
+                onEndImageSelect={keyframeMode ? setEndImage : undefined}
+                aspectRatios={provider.capabilities.aspectRatios}
               />
+              {originalImage && !keyframeMode && (
+                <div className="mt-4 flex items-center gap-3 text-sm text-slate-400">
+                  {subjectMask && (
+                    <img src={subjectMask} alt="Subject mask" className="w-10 h-10 object-contain rounded border border-slate-700 bg-black" />
+                  )}
+                  <span className="flex-1">
+                    {subjectMask ? 'Subject mask set: only the marked subject moves.' : 'No subject mask: the model picks the main subject.'}
+                  </span>
+                  <Button onClick={() => setIsMasking(true)} variant="secondary" className="flex items-center gap-2 text-xs py-1.5">
+                    <ScanEye className="w-4 h-4" /> {subjectMask ? 'Edit' : 'Select subject'}
+                  </Button>
+                  {subjectMask && (
+                    <button onClick={() => handleSubjectMaskSave(null)} className="text-xs text-slate-500 hover:text-white">Remove</button>
+                  )}
+                </div>
+              )}
+              <label className="mt-4 text-sm text-slate-400 flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={keyframeMode}
+                  onChange={(e) => setKeyframeMode(e.target.checked)}
+                  disabled={status.isGenerating || isUpscaling || !provider.capabilities.supportsKeyframes}
+                  className="accent-indigo-500"
+                />
+                <KeyRound className="w-4 h-4" /> Keyframe mode: generate in-betweens from a start and end frame
+              </label>
+              {keyframeMode && readyFrames.length > 1 && (
+                <div className="mt-3">
+                  <p className="text-xs text-slate-500 mb-2">Or pick the end frame from the last run:</p>
+                  <div className="flex gap-2 overflow-x-auto pb-1">
+                    {readyFrames.slice(1).map((frame, i) => (
+                      <button
+                        key={i}
+                        onClick={() => setEndImage(frame)}
+                        disabled={status.isGenerating || isUpscaling}
+                        className={`flex-shrink-0 w-14 h-14 rounded-md overflow-hidden border-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                          endImage === frame ? 'border-indigo-500' : 'border-slate-700 hover:border-slate-500'
+                        }`}
+                      >
+                        <img src={frame} alt={`Candidate end frame ${i + 1}`} className="w-full h-full object-cover" />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 shadow-xl">
@@ -333,48 +1221,240 @@ const App: React.FC = () => {
                   />
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-slate-400 mb-2 flex items-center gap-2">
-                    <Move className="w-4 h-4" /> Movement Direction
-                  </label>
-                  <div className="grid grid-cols-3 gap-2">
-                    {DIRECTION_OPTIONS.map((dir) => {
-                      const Icon = dir.icon;
-                      const isSelected = selectedDirection === dir.id;
-                      return (
+                <PromptTemplatePanel
+                  builtIn={BUILT_IN_PROMPT_TEMPLATES}
+                  userPresets={userPresets}
+                  onUserPresetsChange={handleUserPresetsChange}
+                  selectedId={promptTemplate.id}
+                  onSelect={setPromptTemplateId}
+                  renderPreview={renderPromptPreview}
+                  disabled={status.isGenerating || isUpscaling}
+                />
+
+                {!keyframeMode && (
+                  <MotionSettings
+                    motion={motion}
+                    onChange={setMotion}
+                    image={originalImage}
+                    pathMarkers={pathMarkers}
+                    disabled={status.isGenerating || isUpscaling}
+                  />
+                )}
+
+                {!keyframeMode && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-2 flex items-center gap-2">
+                      <Link2 className="w-4 h-4" /> Generation Mode
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {GENERATION_MODE_OPTIONS.map(option => (
                         <button
-                          key={dir.id}
-                          onClick={() => setSelectedDirection(dir.id)}
+                          key={option.id}
+                          onClick={() => setGenerationMode(option.id)}
                           disabled={status.isGenerating || isUpscaling}
                           className={`
-                            flex flex-col items-center justify-center p-3 rounded-lg border transition-all
-                            ${isSelected 
-                              ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-500/20' 
+                            p-3 rounded-lg border text-left transition-all
+                            ${generationMode === option.id
+                              ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-500/20'
                               : 'bg-slate-900 border-slate-700 text-slate-400 hover:border-slate-500 hover:bg-slate-800'
                             }
                           `}
                         >
-                          <Icon className={`w-5 h-5 mb-1 ${isSelected ? 'text-white' : 'text-slate-500'}`} />
-                          <span className="text-xs font-medium">{dir.label}</span>
+                          <span className="block text-sm font-medium">{option.label}</span>
+                          <span className="block text-xs opacity-70 mt-0.5">{option.hint}</span>
                         </button>
-                      );
-                    })}
+                      ))}
+                    </div>
+                    {generationMode === 'chained' && (
+                      <label className="mt-3 text-xs text-slate-400 flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={useReference}
+                          onChange={(e) => setUseReference(e.target.checked)}
+                          disabled={status.isGenerating || isUpscaling}
+                          className="accent-indigo-500"
+                        />
+                        Send the original as a reference with each frame
+                      </label>
+                    )}
+                  </div>
+                )}
+
+                <TimingSettings
+                  timing={timing}
+                  onChange={handleTimingChange}
+                  disabled={status.isGenerating || isUpscaling}
+                />
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-400 mb-2 flex items-center gap-2">
+                    <Server className="w-4 h-4" /> Backend
+                  </label>
+                  <select
+                    value={providerId}
+                    onChange={(e) => setProviderId(e.target.value)}
+                    disabled={status.isGenerating || isUpscaling}
+                    className="w-full px-4 py-2.5 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-white"
+                  >
+                    {PROVIDERS.map(p => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}{p.capabilities.requiresApiKey ? '' : ' (no API key needed)'}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="grid grid-cols-2 gap-3 mt-3">
+                    <label className="text-xs text-slate-400 space-y-1">
+                      <span className="block">Parallel requests</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={concurrency}
+                        onChange={(e) => setConcurrency(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+                        className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+                      />
+                    </label>
+                    <label className="text-xs text-slate-400 space-y-1">
+                      <span className="block">Retries per frame</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={8}
+                        value={maxRetries}
+                        onChange={(e) => setMaxRetries(Math.min(8, Math.max(0, Number(e.target.value) || 0)))}
+                        className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+                      />
+                    </label>
+                    <label className="text-xs text-slate-400 space-y-1">
+                      <span className="block">Temperature {sampling.temperature.toFixed(2)}</span>
+                      <input
+                        type="range"
+                        min={0}
+                        max={2}
+                        step={0.05}
+                        value={sampling.temperature}
+                        onChange={(e) => setSampling({ ...sampling, temperature: Number(e.target.value) })}
+                        disabled={status.isGenerating || isUpscaling}
+                        className="w-full accent-indigo-500"
+                      />
+                    </label>
+                    <label className="text-xs text-slate-400 space-y-1">
+                      <span className="block">Seed</span>
+                      <span className="flex gap-1">
+                        <input
+                          type="number"
+                          min={0}
+                          value={sampling.seed ?? ''}
+                          onChange={(e) => setSampling({ ...sampling, seed: e.target.value === '' ? undefined : Math.max(0, Math.round(Number(e.target.value))) })}
+                          placeholder="Random"
+                          disabled={status.isGenerating || isUpscaling}
+                          className="w-full min-w-0 px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white placeholder-slate-500"
+                        />
+                        <button
+                          onClick={() => setSampling({ ...sampling, seed: randomSeed() })}
+                          disabled={status.isGenerating || isUpscaling}
+                          title="Fix a random seed, so the run can be reproduced"
+                          className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-50"
+                        >
+                          <Dices className="w-4 h-4" />
+                        </button>
+                      </span>
+                    </label>
                   </div>
                 </div>
 
+                <div>
+                  <label className="text-sm text-slate-400 flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={variationsEnabled}
+                      onChange={(e) => setVariationsEnabled(e.target.checked)}
+                      disabled={status.isGenerating || isUpscaling}
+                      className="accent-indigo-500"
+                    />
+                    <Shuffle className="w-4 h-4" /> Variations: generate several takes and pick the best
+                  </label>
+                  {variationsEnabled && (
+                    <div className="mt-3 pl-6 space-y-2">
+                      <div className="grid grid-cols-3 gap-3">
+                        <label className="text-xs text-slate-400 space-y-1">
+                          <span className="block">Takes</span>
+                          <input
+                            type="number"
+                            min={2}
+                            max={MAX_VARIATIONS}
+                            value={variationOptions.count}
+                            onChange={(e) => setVariationOptions({ ...variationOptions, count: Math.min(MAX_VARIATIONS, Math.max(2, Number(e.target.value) || 2)) })}
+                            disabled={status.isGenerating}
+                            className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+                          />
+                        </label>
+                        <label className="text-xs text-slate-400 space-y-1">
+                          <span className="block">Min temperature</span>
+                          <input
+                            type="number"
+                            min={0}
+                            max={2}
+                            step={0.1}
+                            value={variationOptions.minTemperature}
+                            onChange={(e) => setVariationOptions({ ...variationOptions, minTemperature: Math.min(2, Math.max(0, Number(e.target.value) || 0)) })}
+                            disabled={status.isGenerating}
+                            className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+                          />
+                        </label>
+                        <label className="text-xs text-slate-400 space-y-1">
+                          <span className="block">Max temperature</span>
+                          <input
+                            type="number"
+                            min={0}
+                            max={2}
+                            step={0.1}
+                            value={variationOptions.maxTemperature}
+                            onChange={(e) => setVariationOptions({ ...variationOptions, maxTemperature: Math.min(2, Math.max(0, Number(e.target.value) || 0)) })}
+                            disabled={status.isGenerating}
+                            className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+                          />
+                        </label>
+                      </div>
+                      <p className="text-xs text-slate-500">
+                        Each take has its own seed and temperature and costs as much as a single run.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
                 <Button 
                   onClick={handleGenerate}
-                  disabled={!originalImage || status.isGenerating || isUpscaling}
+                  disabled={!originalImage || (keyframeMode && !endImage) || status.isGenerating || isUpscaling || isBatchRunning}
                   isLoading={status.isGenerating && !isUpscaling}
                   className="w-full py-3 text-lg mt-4"
                 >
                   <Wand2 className="w-5 h-5 mr-2" />
                   {status.isGenerating && !isUpscaling
-                    ? `Generating ${status.completedFrames}/${status.totalFrames}...` 
-                    : 'Generate Animation'
+                    ? isVariating
+                      ? `Generating ${variations?.takes.length} takes...`
+                      : `Generating ${status.completedFrames}/${status.totalFrames}...`
+                    : variationsEnabled ? `Generate ${variationOptions.count} Takes` : 'Generate Animation'
                   }
                 </Button>
 
+                {variations && !showVariations && (
+                  <Button onClick={() => setShowVariations(true)} variant="secondary" className="w-full flex items-center justify-center gap-2">
+                    <Shuffle className="w-4 h-4" /> Show takes
+                  </Button>
+                )}
+
+                {status.isGenerating && (
+                  <Button
+                    onClick={handleCancelGenerate}
+                    variant="danger"
+                    className="w-full"
+                  >
+                    <XCircle className="w-4 h-4 mr-2" />
+                    Cancel Generation
+                  </Button>
+                )}
+
                 {status.error && (
                   <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-red-200 text-sm flex items-start gap-2">
                     <AlertCircle className="w-5 h-5 shrink-0" />
@@ -396,27 +1476,75 @@ const App: React.FC = () => {
               <div className="flex-1 flex flex-col items-center justify-center w-full">
                 {generatedFrames.length > 0 ? (
                   <div className="w-full animate-in fade-in duration-700 flex flex-col items-center">
-                     <AnimationPlayer frames={generatedFrames} fps={4} />
+                     <div className="w-full flex justify-end gap-2 mb-3">
+                       <button
+                         onClick={() => setIsComparing(true)}
+                         disabled={readyFrames.length === 0}
+                         title="Compare upscales and consecutive frames"
+                         className="mr-auto flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-md border border-slate-700 bg-slate-900 text-slate-300 hover:border-slate-500 disabled:opacity-40"
+                       >
+                         <SplitSquareHorizontal className="w-3.5 h-3.5" /> Compare
+                       </button>
+                       <button
+                         onClick={handleUndo}
+                         disabled={undoStack.length === 0 || frameJobsActive}
+                         title="Undo frame edit (Ctrl+Z)"
+                         className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-md border border-slate-700 bg-slate-900 text-slate-300 hover:border-slate-500 disabled:opacity-40"
+                       >
+                         <Undo2 className="w-3.5 h-3.5" /> Undo
+                       </button>
+                       <button
+                         onClick={handleRedo}
+                         disabled={redoStack.length === 0 || frameJobsActive}
+                         title="Redo frame edit (Ctrl+Shift+Z)"
+                         className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-md border border-slate-700 bg-slate-900 text-slate-300 hover:border-slate-500 disabled:opacity-40"
+                       >
+                         <Redo2 className="w-3.5 h-3.5" /> Redo
+                       </button>
+                     </div>
+                     <AnimationPlayer
+                       frames={displayFrames}
+                       fps={playbackFps}
+                       frameStates={interpolatedFrames
+                         ? interpolatedFrames.map(f => (f.interpolated ? undefined : status.frameStates?.[f.sourceIndex]))
+                         : status.frameStates}
+                       onRetryFrame={interpolatedFrames
+                         ? (index) => handleRetryFrame(interpolatedFrames[index].sourceIndex)
+                         : handleRetryFrame}
+                       frameLabels={interpolatedFrames
+                         ? interpolatedFrames.map(f => (f.interpolated ? 'INTERP' : frameLabels[f.sourceIndex]))
+                         : frameLabels}
+                       interpolated={interpolatedFrames?.map(f => f.interpolated)}
+                       editor={playerEditor}
+                       holds={displayHolds}
+                       onHoldChange={playerEditor && !playerEditor.disabled ? handleHoldChange : undefined}
+                       playback={playback}
+                       onPlaybackChange={setPlayback}
+                       quality={frameQuality && (interpolatedFrames
+                         ? interpolatedFrames.map(f => (f.interpolated ? null : frameQuality[f.sourceIndex]))
+                         : frameQuality)}
+                     />
+
+                     <div className="mt-6 w-full">
+                       <QualityPanel
+                         enabled={qualityEnabled}
+                         onEnabledChange={setQualityEnabled}
+                         quality={frameQuality}
+                         labels={frameLabels}
+                         isScoring={isScoring}
+                         error={qualityError}
+                         options={qualityOptions}
+                         onOptionsChange={setQualityOptions}
+                         autoRetries={generatedFrames.reduce((sum, frame) => sum + (qualityRetries[frame.id] ?? 0), 0)}
+                         onRegenerate={handleRegenerateFrames}
+                         disabled={!lastRun || status.isGenerating || isUpscaling || frameJobsActive}
+                       />
+                     </div>
                      
                      <div className="mt-8 flex flex-wrap gap-4 justify-center w-full px-4">
-                        <Button 
-                          onClick={handleUpscale}
-                          disabled={isDownloading || isUpscaling || status.isGenerating}
-                          variant="primary"
-                          className="flex items-center gap-2 w-full sm:w-auto bg-purple-600 hover:bg-purple-700 focus:ring-purple-500"
-                        >
-                          <Sparkles className="w-4 h-4" />
-                          {isUpscaling 
-                            ? `Upscaling ${status.completedFrames}/${generatedFrames.length}...`
-                            : 'Real Upscale (2K)'
-                          }
-                        </Button>
-
-                        <div className="w-full sm:w-px h-px sm:h-10 bg-slate-700 mx-2 hidden sm:block"></div>
-
                         <Button 
                           onClick={handleDownloadVideo}
-                          disabled={isDownloading || isUpscaling || status.isGenerating}
+                          disabled={isDownloading || isUpscaling || isStabilizing || isInterpolating || status.isGenerating}
                           variant="secondary"
                           className="flex items-center gap-2 w-full sm:w-auto"
                         >
@@ -425,17 +1553,334 @@ const App: React.FC = () => {
                         </Button>
                         <Button 
                           onClick={handleDownloadZip}
-                          disabled={isDownloading || isUpscaling || status.isGenerating}
+                          disabled={isDownloading || isUpscaling || isStabilizing || isInterpolating || status.isGenerating}
                           variant="secondary"
                           className="flex items-center gap-2 w-full sm:w-auto"
                         >
                           <FileArchive className="w-4 h-4" />
                           Download ZIP
                         </Button>
+                        <Button 
+                          onClick={handleDownloadProject}
+                          disabled={!lastRun || isDownloading || isUpscaling || status.isGenerating || frameJobsActive}
+                          variant="secondary"
+                          className="flex items-center gap-2 w-full sm:w-auto"
+                          title={`Settings, frames, upscales and edit history in one ${BUNDLE_EXTENSION} file`}
+                        >
+                          <Package className="w-4 h-4" />
+                          Save Project File
+                        </Button>
+                     </div>
+
+                     <div className="mt-6 w-full">
+                       <UpscalePanel
+                         frames={generatedFrames}
+                         labels={frameLabels}
+                         selected={generatedFrames.map(f => Boolean(f.imageUrl) && !upscaleSkipped.includes(f.id))}
+                         onSelectionChange={(selected) => setUpscaleSkipped(generatedFrames.filter((_, i) => !selected[i]).map(f => f.id))}
+                         engine={activeUpscaleEngine}
+                         onEngineChange={setUpscaleEngine}
+                         providerName={provider.name}
+                         providerAvailable={provider.capabilities.canUpscale}
+                         variant={upscaleVariant}
+                         size={upscaleSize}
+                         sizes={provider.capabilities.upscaleSizes}
+                         onSizeChange={setUpscaleSize}
+                         localOptions={localUpscale}
+                         onLocalOptionsChange={setLocalUpscale}
+                         costPerImage={provider.capabilities.upscaleCost?.[upscaleSize]}
+                         jobStates={upscaleStates}
+                         showUpscaled={showUpscaled}
+                         onShowUpscaledChange={setShowUpscaled}
+                         isUpscaling={isUpscaling}
+                         onStart={activeUpscaleEngine === 'local' ? handleLocalUpscale : handleUpscale}
+                         onCancel={() => (activeUpscaleEngine === 'local' ? localUpscaleController.current?.abort() : queue.cancel())}
+                         disabled={isDownloading || status.isGenerating || frameJobsActive}
+                       />
+                     </div>
+
+                     <div className="mt-6 w-full bg-slate-900/60 border border-slate-700 rounded-xl p-4 space-y-4">
+                        <div className="flex items-center gap-2 text-sm font-medium text-slate-300">
+                          <ImagePlay className="w-4 h-4" /> Export Settings
+                        </div>
+                        <div className="space-y-2">
+                          <label className="text-xs text-slate-300 flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={stabilizeEnabled}
+                              onChange={(e) => setStabilizeEnabled(e.target.checked)}
+                              className="accent-indigo-500"
+                            />
+                            <Crosshair className="w-3.5 h-3.5" /> Stabilize frames (preview and exports)
+                            {isStabilizing && <Loader2 className="w-3.5 h-3.5 animate-spin text-indigo-400" />}
+                          </label>
+                          {stabilizeEnabled && stabilizeError && <p className="text-xs text-red-300 pl-5">{stabilizeError}</p>}
+                          {stabilizeEnabled && (
+                            <div className="grid grid-cols-2 gap-2 pl-5">
+                              <label className="text-xs text-slate-400 flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={stabilization.align}
+                                  onChange={(e) => setStabilization({ ...stabilization, align: e.target.checked })}
+                                  className="accent-indigo-500"
+                                />
+                                Align to the original
+                              </label>
+                              <label className="text-xs text-slate-400 flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={stabilization.normalizeColor}
+                                  onChange={(e) => setStabilization({ ...stabilization, normalizeColor: e.target.checked })}
+                                  className="accent-indigo-500"
+                                />
+                                Match color and exposure
+                              </label>
+                              <label className="text-xs text-slate-400 flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={stabilization.lockBackground}
+                                  onChange={(e) => setStabilization({ ...stabilization, lockBackground: e.target.checked })}
+                                  className="accent-indigo-500"
+                                />
+                                Lock background
+                              </label>
+                              {subjectComposite && (
+                                <label className="col-span-2 text-xs text-slate-400 flex items-center gap-2">
+                                  <input
+                                    type="checkbox"
+                                    checked={stabilization.compositeSubject}
+                                    onChange={(e) => setStabilization({ ...stabilization, compositeSubject: e.target.checked })}
+                                    className="accent-indigo-500"
+                                  />
+                                  Keep only the masked subject, over the original background
+                                </label>
+                              )}
+                              {stabilization.lockBackground && (
+                                <label className="text-xs text-slate-400 flex items-center gap-2">
+                                  <span>Threshold</span>
+                                  <input
+                                    type="range"
+                                    min={0.02}
+                                    max={0.3}
+                                    step={0.01}
+                                    value={stabilization.backgroundThreshold}
+                                    onChange={(e) => setStabilization({ ...stabilization, backgroundThreshold: Number(e.target.value) })}
+                                    className="flex-1 accent-indigo-500"
+                                  />
+                                </label>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                        <div className="grid grid-cols-3 gap-3 items-end">
+                          <label className="text-xs text-slate-400 space-y-1">
+                            <span className="flex items-center gap-1.5">
+                              <Layers className="w-3.5 h-3.5" /> Interpolation
+                              {isInterpolating && <Loader2 className="w-3.5 h-3.5 animate-spin text-indigo-400" />}
+                            </span>
+                            <select
+                              value={interpolation.multiplier}
+                              onChange={(e) => handleInterpolationChange({ ...interpolation, multiplier: Number(e.target.value) })}
+                              className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+                            >
+                              {INTERPOLATION_MULTIPLIERS.map(m => (
+                                <option key={m} value={m}>{m === 1 ? 'Off' : `${m}x frames`}</option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="text-xs text-slate-400 space-y-1">
+                            <span className="block">Method</span>
+                            <select
+                              value={interpolation.method}
+                              onChange={(e) => handleInterpolationChange({ ...interpolation, method: e.target.value as InterpolationMethod })}
+                              disabled={interpolation.multiplier <= 1}
+                              className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+                            >
+                              <option value="optical-flow">Optical flow</option>
+                              <option value="crossfade">Crossfade</option>
+                            </select>
+                          </label>
+                          <p className="text-xs text-slate-500 pb-2">
+                            {interpolation.multiplier > 1
+                              ? `${timing.fps * interpolation.multiplier} fps at the same duration`
+                              : 'Adds in-betweens locally'}
+                          </p>
+                        </div>
+                        {interpolation.multiplier > 1 && interpolateError && <p className="text-xs text-red-300">{interpolateError}</p>}
+                        <div className="grid grid-cols-3 gap-3">
+                          <label className="text-xs text-slate-400 space-y-1">
+                            <span className="block">FPS</span>
+                            <input
+                              type="number"
+                              min={1}
+                              max={50}
+                              value={exportFps}
+                              onChange={(e) => setExportFps(Math.min(50, Math.max(1, Number(e.target.value) || 1)))}
+                              className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+                            />
+                          </label>
+                          <label className="text-xs text-slate-400 space-y-1">
+                            <span className="block">Loop</span>
+                            <select
+                              value={playback.mode === 'once' ? 1 : exportLoopCount}
+                              onChange={(e) => setExportLoopCount(Number(e.target.value))}
+                              disabled={playback.mode === 'once'}
+                              title={playback.mode === 'once' ? 'Playback is set to play once' : undefined}
+                              className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+                            >
+                              <option value={0}>Forever</option>
+                              <option value={1}>Play once</option>
+                              <option value={2}>2 times</option>
+                              <option value={3}>3 times</option>
+                              <option value={5}>5 times</option>
+                            </select>
+                          </label>
+                          <label className="text-xs text-slate-400 flex items-end gap-2 pb-2">
+                            <input
+                              type="checkbox"
+                              checked={gifDither}
+                              onChange={(e) => setGifDither(e.target.checked)}
+                              className="accent-indigo-500"
+                            />
+                            GIF dithering
+                          </label>
+                        </div>
+                        <div className="grid grid-cols-3 gap-3">
+                          <label className="text-xs text-slate-400 space-y-1">
+                            <span className="block">Video format</span>
+                            <select
+                              value={videoContainer}
+                              onChange={(e) => setVideoContainer(e.target.value as VideoContainer)}
+                              className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+                            >
+                              <option value="webm">WebM (VP9)</option>
+                              <option value="mp4">MP4 (H.264)</option>
+                            </select>
+                          </label>
+                          <label className="text-xs text-slate-400 space-y-1">
+                            <span className="block">Bitrate</span>
+                            <select
+                              value={videoBitrate}
+                              onChange={(e) => setVideoBitrate(Number(e.target.value))}
+                              className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+                            >
+                              <option value={1_000_000}>1 Mbps</option>
+                              <option value={4_000_000}>4 Mbps</option>
+                              <option value={8_000_000}>8 Mbps</option>
+                              <option value={16_000_000}>16 Mbps</option>
+                            </select>
+                          </label>
+                          <label className="text-xs text-slate-400 space-y-1">
+                            <span className="block">Resolution</span>
+                            <select
+                              value={videoHeight}
+                              onChange={(e) => setVideoHeight(Number(e.target.value))}
+                              className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+                            >
+                              <option value={0}>Original</option>
+                              <option value={480}>480p</option>
+                              <option value={720}>720p</option>
+                              <option value={1080}>1080p</option>
+                              <option value={2160}>2160p</option>
+                            </select>
+                          </label>
+                        </div>
+                        <div className="flex flex-wrap gap-3">
+                          <Button 
+                            onClick={() => handleDownloadAnimated('gif')}
+                            disabled={isDownloading || isUpscaling || isStabilizing || isInterpolating || status.isGenerating}
+                            variant="secondary"
+                            className="flex items-center gap-2 flex-1"
+                          >
+                            <Download className="w-4 h-4" />
+                            Download GIF
+                          </Button>
+                          <Button 
+                            onClick={() => handleDownloadAnimated('apng')}
+                            disabled={isDownloading || isUpscaling || isStabilizing || isInterpolating || status.isGenerating}
+                            variant="secondary"
+                            className="flex items-center gap-2 flex-1"
+                          >
+                            <Download className="w-4 h-4" />
+                            Download APNG
+                          </Button>
+                        </div>
+                        <div className="border-t border-slate-700 pt-4 space-y-3">
+                          <div className="flex items-center gap-2 text-xs font-medium text-slate-300">
+                            <LayoutGrid className="w-3.5 h-3.5" /> Sprite sheet (PNG + TexturePacker JSON + CSS)
+                          </div>
+                          <div className="grid grid-cols-3 gap-3 items-end">
+                            <label className="text-xs text-slate-400 space-y-1">
+                              <span className="block">Layout</span>
+                              <select
+                                value={spriteSheet.layout}
+                                onChange={(e) => setSpriteSheet({ ...spriteSheet, layout: e.target.value as SpriteSheetOptions['layout'] })}
+                                className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+                              >
+                                <option value="grid">Grid</option>
+                                <option value="packed">Packed</option>
+                              </select>
+                            </label>
+                            <label className="text-xs text-slate-400 space-y-1">
+                              <span className="block">Columns</span>
+                              <input
+                                type="number"
+                                min={0}
+                                max={64}
+                                value={spriteSheet.columns}
+                                onChange={(e) => setSpriteSheet({ ...spriteSheet, columns: Math.min(64, Math.max(0, Number(e.target.value) || 0)) })}
+                                disabled={spriteSheet.layout !== 'grid'}
+                                title="0 picks a near-square grid"
+                                className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white disabled:opacity-50"
+                              />
+                            </label>
+                            <label className="text-xs text-slate-400 space-y-1">
+                              <span className="block">Padding (px)</span>
+                              <input
+                                type="number"
+                                min={0}
+                                max={32}
+                                value={spriteSheet.padding}
+                                onChange={(e) => setSpriteSheet({ ...spriteSheet, padding: Math.min(32, Math.max(0, Number(e.target.value) || 0)) })}
+                                className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+                              />
+                            </label>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-4">
+                            <label className="text-xs text-slate-400 flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                checked={spriteSheet.trim}
+                                onChange={(e) => setSpriteSheet({ ...spriteSheet, trim: e.target.checked })}
+                                className="accent-indigo-500"
+                              />
+                              Trim transparent borders
+                            </label>
+                            <label className="text-xs text-slate-400 flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                checked={spriteSheet.powerOfTwo}
+                                onChange={(e) => setSpriteSheet({ ...spriteSheet, powerOfTwo: e.target.checked })}
+                                className="accent-indigo-500"
+                              />
+                              Power-of-two size
+                            </label>
+                            <Button
+                              onClick={handleDownloadSpriteSheet}
+                              disabled={isDownloading || isUpscaling || isStabilizing || isInterpolating || status.isGenerating}
+                              variant="secondary"
+                              className="flex items-center gap-2 ml-auto"
+                            >
+                              <LayoutGrid className="w-4 h-4" />
+                              Download Sprite Sheet
+                            </Button>
+                          </div>
+                        </div>
                      </div>
+
                      <p className="text-xs text-slate-500 mt-4 text-center max-w-md">
-                       Note: Upscaling uses the Gemini 3 Pro model and requires a paid API key. 
-                       It will significantly enhance the resolution of all frames.
+                       Note: Upscaling uses the {modelLabel(appSettings.upscaleModel)} model and requires a paid API key.
+                       Upscaled versions are stored next to the generated frames, which are never overwritten.
                      </p>
                   </div>
                 ) : (
@@ -452,6 +1897,74 @@ const App: React.FC = () => {
           </div>
 
         </div>
+
+        {isMasking && originalImage && (
+          <SubjectMaskEditor
+            image={originalImage}
+            mask={subjectMask}
+            onSave={handleSubjectMaskSave}
+            onCancel={() => setIsMasking(false)}
+          />
+        )}
+
+        {showSettings && (
+          <SettingsPanel
+            settings={appSettings}
+            onSave={handleSaveSettings}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+
+        {showVariations && variations && (
+          <VariationsPanel
+            key={variations.takes[0]?.sampling.seed}
+            takes={variations.takes}
+            fps={variations.run.fps}
+            labels={variations.takes[0]?.frames.map((frame, i) =>
+              frame.anchor === 'start' ? (variations.run.endImage ? 'START' : 'ORIGINAL') : frame.anchor === 'end' ? 'END' : `FRAME ${i}`) ?? []}
+            isGenerating={isVariating}
+            onCancel={handleCancelGenerate}
+            onApply={handleApplyVariation}
+            onReuseSampling={(params) => {
+              setSampling(params);
+              setVariationsEnabled(false);
+              setShowVariations(false);
+            }}
+            onClose={() => setShowVariations(false)}
+          />
+        )}
+
+        {isComparing && (
+          <FrameCompare
+            frames={generatedFrames}
+            upscaleVariant={upscaleVariant}
+            labels={frameLabels}
+            onClose={() => setIsComparing(false)}
+          />
+        )}
+
+        <BatchPanel
+          items={batchItems}
+          onItemsChange={setBatchItems}
+          onAddItems={(added) => setBatchItems(prev => [...prev, ...added])}
+          sharedDescription={promptDescription}
+          sharedMotion={summarizeMotion(motion)}
+          sharedFrameCount={timing.frameCount}
+          isRunning={isBatchRunning}
+          onStart={handleBatchStart}
+          onCancel={() => batchQueue.cancel()}
+          onOpen={handleOpenBatchItem}
+          onExport={handleDownloadBatch}
+          disabled={status.isGenerating || isUpscaling || frameJobsActive || isDownloading}
+        />
+
+        <HistoryPanel
+          refreshToken={historyToken}
+          activeProjectId={currentProject?.id ?? null}
+          onOpen={handleOpenProject}
+          onImport={handleImportProject}
+          disabled={status.isGenerating || isUpscaling || isBatchRunning}
+        />
       </main>
     </div>
   );
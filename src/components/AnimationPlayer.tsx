@@ -1,57 +1,220 @@
-import React, { useState, useEffect } from 'react';
-import { Play, Pause, RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Pause, RefreshCw, ChevronLeft, ChevronRight, AlertTriangle, Clock, Loader2, RotateCw, MoreHorizontal, Copy, Trash2, Plus, Wand2, X, Layers, Flag } from 'lucide-react';
+import { FrameJobState, FrameQuality, PlaybackSettings } from '../types';
+import { describeQuality } from '../services/qualityService';
+import { DEFAULT_PLAYBACK, MAX_HOLD, PLAYBACK_MODES, buildTimeline, timelineElapsed } from '../utils/playback';
+
+/** Sequence edits offered from the thumbnail strip. */
+export interface FrameEditHandlers {
+  regenerate: (index: number, promptOverride?: string) => void;
+  duplicate: (index: number) => void;
+  remove: (index: number) => void;
+  /** Generates a new frame between index and index + 1. */
+  insertAfter: (index: number) => void;
+  move: (from: number, to: number) => void;
+  /** Locked frames (the uploaded keyframes) can't be regenerated, removed or dragged. */
+  isLocked: (index: number) => boolean;
+  disabled?: boolean;
+}
 
 interface AnimationPlayerProps {
-  frames: string[]; // Array of base64 image strings
+  frames: string[]; // Array of base64 image strings, empty while a frame is not available yet
   fps?: number;
+  frameStates?: (FrameJobState | undefined)[];
+  onRetryFrame?: (index: number) => void;
+  /** Overrides the thumbnail captions, e.g. to mark keyframe anchors. */
+  frameLabels?: string[];
+  editor?: FrameEditHandlers;
+  /** Flags frames synthesized locally rather than generated. */
+  interpolated?: boolean[];
+  /** Per-frame hold in frame intervals. */
+  holds?: (number | undefined)[];
+  /** Makes holds editable for the frame on screen. */
+  onHoldChange?: (index: number, hold: number) => void;
+  /** Controlled playback settings; the player keeps its own when omitted. */
+  playback?: PlaybackSettings;
+  onPlaybackChange?: (playback: PlaybackSettings) => void;
+  /** Shows only the viewer, for grids of small players. */
+  compact?: boolean;
+  /** Frame to show, driven from outside so several players stay in step. */
+  syncIndex?: number;
+  /** Quality check results; flagged frames get a badge. */
+  quality?: (FrameQuality | null | undefined)[];
 }
 
-export const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ frames, fps = 2 }) => {
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+export const AnimationPlayer: React.FC<AnimationPlayerProps> = ({
+  frames, fps = 2, frameStates, onRetryFrame, frameLabels, editor, interpolated, holds, onHoldChange, playback: playbackProp, onPlaybackChange,
+  compact, syncIndex, quality,
+}) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [menuIndex, setMenuIndex] = useState<number | null>(null);
+  const [promptOverride, setPromptOverride] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [localPlayback, setLocalPlayback] = useState<PlaybackSettings>(DEFAULT_PLAYBACK);
+  // Position within the timeline, which differs from the frame index in ping-pong and with holds
+  const [position, setPosition] = useState(0);
+  const [onionSkin, setOnionSkin] = useState(false);
+
+  const playback = playbackProp ?? localPlayback;
+  const setPlayback = onPlaybackChange ?? setLocalPlayback;
+
+  // Only frames that actually have an image take part in playback
+  const playable = frames.map((frame, i) => (frame ? i : -1)).filter(i => i >= 0);
+  const timeline = buildTimeline(playable, holds ?? [], fps, playback);
+  // The playback timer reads the latest timeline without restarting on every render
+  const timelineRef = useRef(timeline);
+  timelineRef.current = timeline;
+
+  const step = (from: number, direction: 1 | -1) => {
+    if (playable.length === 0) return from;
+    const pos = playable.indexOf(from);
+    if (pos === -1) return playable[0];
+    return playable[(pos + direction + playable.length) % playable.length];
+  };
 
-  // Reset when frames change
+  // Reset when the sequence changes length; frames filling in one by one keep the position
   useEffect(() => {
     setCurrentIndex(0);
+    setPosition(0);
     setIsPlaying(false);
-  }, [frames]);
+    setMenuIndex(null);
+  }, [frames.length]);
 
   useEffect(() => {
-    let interval: number;
-    if (isPlaying && frames.length > 1) {
-      interval = window.setInterval(() => {
-        setCurrentIndex((prev) => (prev + 1) % frames.length);
-      }, 1000 / fps);
-    }
-    return () => clearInterval(interval);
-  }, [isPlaying, frames, fps]);
+    const current = timelineRef.current;
+    if (!isPlaying || current.length < 2) return;
+    // The timeline can shrink under a running position, e.g. when leaving ping-pong
+    const from = position < current.length ? position : 0;
+    const timer = window.setTimeout(() => {
+      const latest = timelineRef.current;
+      const next = from + 1 < latest.length ? from + 1 : 0;
+      if (next === 0 && playback.mode === 'once') {
+        setIsPlaying(false);
+        return;
+      }
+      if (!latest[next]) return;
+      setPosition(next);
+      setCurrentIndex(latest[next].index);
+    }, current[from].duration);
+    return () => clearTimeout(timer);
+  }, [isPlaying, position, timeline.length, playback.mode]);
 
   if (frames.length === 0) return null;
 
+  if (compact) {
+    const index = Math.min(syncIndex ?? currentIndex, frames.length - 1);
+    const state = frameStates?.[index];
+    return (
+      <div className="relative w-full aspect-square bg-black/50 rounded-lg overflow-hidden border border-gray-700 flex items-center justify-center select-none">
+        {frames[index] ? (
+          <img src={frames[index]} alt={`Frame ${index + 1}`} className="max-h-full max-w-full object-contain" />
+        ) : state?.status === 'failed' ? (
+          <AlertTriangle className="w-6 h-6 text-red-400" />
+        ) : (
+          <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+        )}
+        <div className="absolute top-1 right-1 px-1.5 py-0.5 bg-black/70 rounded text-[10px] text-white">
+          {index + 1} / {frames.length}
+        </div>
+      </div>
+    );
+  }
+
+  const seek = (pos: number) => {
+    const entry = timeline[pos];
+    if (!entry) return;
+    setPosition(pos);
+    setCurrentIndex(entry.index);
+  };
+
+  // Shows a frame and moves the timeline to its first appearance
+  const showFrame = (index: number) => {
+    setCurrentIndex(index);
+    const pos = timeline.findIndex(entry => entry.index === index);
+    if (pos !== -1) setPosition(pos);
+  };
+
+  const handlePlayToggle = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    const pos = timeline[position]?.index === currentIndex
+      ? position
+      : timeline.findIndex(entry => entry.index === currentIndex);
+    // Play-once starts over when it has already reached the end
+    seek(pos === -1 || (playback.mode === 'once' && pos === timeline.length - 1) ? 0 : pos);
+    setIsPlaying(true);
+  };
+
   const handleNext = () => {
     setIsPlaying(false);
-    setCurrentIndex((prev) => (prev + 1) % frames.length);
+    showFrame(step(currentIndex, 1));
   };
 
   const handlePrev = () => {
     setIsPlaying(false);
-    setCurrentIndex((prev) => (prev - 1 + frames.length) % frames.length);
+    showFrame(step(currentIndex, -1));
   };
 
   const handleThumbnailClick = (index: number) => {
     setIsPlaying(false);
-    setCurrentIndex(index);
+    showFrame(index);
+  };
+
+  const openMenu = (index: number) => {
+    setMenuIndex(index);
+    setPromptOverride('');
+    handleThumbnailClick(index);
+  };
+
+  const runEdit = (edit: () => void) => {
+    edit();
+    setMenuIndex(null);
   };
 
+  const handleDrop = (index: number) => {
+    if (editor && dragIndex !== null && dragIndex !== index && !editor.isLocked(index)) {
+      editor.move(dragIndex, index);
+      setCurrentIndex(index);
+    }
+    setDragIndex(null);
+  };
+
+  const scrubPosition = Math.min(position, Math.max(0, timeline.length - 1));
+  const playablePos = playable.indexOf(currentIndex);
+  // Neighbouring frames drawn over the current one to judge motion continuity
+  const onionFrames = onionSkin && playablePos !== -1
+    ? [playable[playablePos - 1], playable[playablePos + 1]].filter((i): i is number => i !== undefined)
+    : [];
+
   return (
     <div className="flex flex-col items-center space-y-6 w-full">
       {/* Main Viewer */}
       <div className="relative w-full aspect-square md:aspect-video bg-black/50 rounded-xl overflow-hidden border border-gray-700 flex items-center justify-center group select-none">
-        <img
-          src={frames[currentIndex]}
-          alt={`Frame ${currentIndex + 1}`}
-          className="max-h-full max-w-full object-contain"
-        />
+        {frames[currentIndex] ? (
+          <img
+            src={frames[currentIndex]}
+            alt={`Frame ${currentIndex + 1}`}
+            className={onionSkin ? 'w-full h-full object-contain' : 'max-h-full max-w-full object-contain'}
+          />
+        ) : (
+          <div className="flex flex-col items-center gap-2 text-gray-500">
+            <Loader2 className="w-8 h-8 animate-spin" />
+            <span className="text-sm">Frame not ready</span>
+          </div>
+        )}
+        {onionFrames.map(index => (
+          <img
+            key={index}
+            src={frames[index]}
+            alt=""
+            className="absolute inset-0 w-full h-full object-contain opacity-30 pointer-events-none"
+          />
+        ))}
         <div className="absolute top-2 right-2 px-2 py-1 bg-black/70 rounded text-xs text-mono text-white backdrop-blur-sm">
           Frame {currentIndex + 1} / {frames.length}
         </div>
@@ -84,7 +247,7 @@ export const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ frames, fps =
         </button>
 
         <button
-          onClick={() => setIsPlaying(!isPlaying)}
+          onClick={handlePlayToggle}
           className={`p-3 rounded-full transition-all ${
             isPlaying 
             ? 'bg-indigo-500/20 text-indigo-400 hover:bg-indigo-500/30' 
@@ -109,41 +272,234 @@ export const AnimationPlayer: React.FC<AnimationPlayerProps> = ({ frames, fps =
           onClick={() => {
             setIsPlaying(false);
             setCurrentIndex(0);
+            setPosition(0);
           }}
           className="p-2 rounded-full hover:bg-gray-700 text-gray-400 hover:text-white transition-colors"
           title="Reset"
         >
           <RefreshCw className="w-4 h-4" />
         </button>
+
+        <button
+          onClick={() => setOnionSkin(!onionSkin)}
+          className={`p-2 rounded-full transition-colors ${
+            onionSkin ? 'bg-indigo-500/20 text-indigo-400' : 'hover:bg-gray-700 text-gray-400 hover:text-white'
+          }`}
+          title="Onion skin: show the previous and next frame"
+        >
+          <Layers className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Timeline */}
+      <div className="w-full space-y-3">
+        <div className="flex items-center gap-3 text-xs text-gray-400">
+          <input
+            type="range"
+            min={0}
+            max={Math.max(0, timeline.length - 1)}
+            value={scrubPosition}
+            onChange={(e) => {
+              setIsPlaying(false);
+              seek(Number(e.target.value));
+            }}
+            disabled={timeline.length < 2}
+            className="flex-1 accent-indigo-500"
+          />
+          <span className="font-mono whitespace-nowrap">
+            {formatSeconds(timelineElapsed(timeline, scrubPosition))} / {formatSeconds(timelineElapsed(timeline, timeline.length))}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-gray-400">
+          <div className="flex rounded-md overflow-hidden border border-gray-700">
+            {PLAYBACK_MODES.map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => setPlayback({ ...playback, mode: mode.id })}
+                className={`px-3 py-1.5 transition-colors ${
+                  playback.mode === mode.id ? 'bg-indigo-600 text-white' : 'bg-gray-800 hover:bg-gray-700'
+                }`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2">
+            Speed
+            <input
+              type="range"
+              min={0.25}
+              max={3}
+              step={0.25}
+              value={playback.speed}
+              onChange={(e) => setPlayback({ ...playback, speed: Number(e.target.value) })}
+              className="w-24 accent-indigo-500"
+            />
+            <span className="font-mono w-10">{playback.speed}x</span>
+          </label>
+          {onHoldChange && frames[currentIndex] && (
+            <label className="flex items-center gap-2" title="How many frame intervals this frame stays on screen">
+              Hold
+              <select
+                value={holds?.[currentIndex] ?? 1}
+                onChange={(e) => onHoldChange(currentIndex, Number(e.target.value))}
+                className="px-2 py-1 bg-gray-900 border border-gray-600 rounded-md text-white"
+              >
+                {Array.from({ length: MAX_HOLD }, (_, i) => i + 1).map(hold => (
+                  <option key={hold} value={hold}>{hold}x</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
       </div>
 
       {/* Thumbnails Strip */}
       <div className="w-full overflow-x-auto pb-2 scrollbar-thin scrollbar-thumb-gray-700 scrollbar-track-transparent">
         <div className="flex gap-2 min-w-min px-1">
-          {frames.map((frame, idx) => (
-            <button 
-              key={idx}
-              onClick={() => handleThumbnailClick(idx)}
-              className={`
-                relative flex-shrink-0 w-20 sm:w-24 aspect-square rounded-lg overflow-hidden border-2 transition-all duration-200
-                ${idx === currentIndex 
-                  ? 'border-indigo-500 ring-2 ring-indigo-500/20 scale-105 z-10 opacity-100' 
-                  : 'border-gray-700 hover:border-gray-500 opacity-60 hover:opacity-100'
-                }
-              `}
-            >
-              <img 
-                src={frame} 
-                alt={`Thumb ${idx}`} 
-                className="w-full h-full object-cover"
-              />
-              <div className="absolute bottom-0 inset-x-0 bg-black/60 text-[9px] text-center text-white py-0.5 font-medium">
-                {idx === 0 ? "ORIGINAL" : `FRAME ${idx}`}
+          {frames.map((frame, idx) => {
+            const state = frameStates?.[idx];
+            const draggable = Boolean(editor && !editor.disabled && !editor.isLocked(idx));
+            return (
+              <div
+                key={idx}
+                className={`relative flex-shrink-0 group/thumb ${dragIndex === idx ? 'opacity-40' : ''}`}
+                draggable={draggable}
+                onDragStart={() => setDragIndex(idx)}
+                onDragEnd={() => setDragIndex(null)}
+                onDragOver={(e) => { if (dragIndex !== null) e.preventDefault(); }}
+                onDrop={() => handleDrop(idx)}
+              >
+                <button 
+                  onClick={() => handleThumbnailClick(idx)}
+                  onContextMenu={editor ? (e) => { e.preventDefault(); openMenu(idx); } : undefined}
+                  className={`
+                    relative w-20 sm:w-24 aspect-square rounded-lg overflow-hidden border-2 transition-all duration-200
+                    ${interpolated?.[idx] ? 'border-dashed' : ''}
+                    ${idx === currentIndex 
+                      ? 'border-indigo-500 ring-2 ring-indigo-500/20 scale-105 z-10 opacity-100' 
+                      : state?.status === 'failed'
+                        ? 'border-red-700 hover:border-red-500 opacity-80'
+                        : 'border-gray-700 hover:border-gray-500 opacity-60 hover:opacity-100'
+                    }
+                  `}
+                >
+                  {frame ? (
+                    <img 
+                      src={frame} 
+                      alt={`Thumb ${idx}`} 
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-full h-full bg-gray-900 flex items-center justify-center text-gray-500">
+                      {state?.status === 'failed' && <AlertTriangle className="w-6 h-6 text-red-400" />}
+                      {state?.status === 'running' && <Loader2 className="w-6 h-6 animate-spin text-indigo-400" />}
+                      {(!state || state.status === 'pending') && <Clock className="w-6 h-6" />}
+                    </div>
+                  )}
+                  {(holds?.[idx] ?? 1) > 1 && (
+                    <div className="absolute bottom-5 right-1 px-1 rounded bg-black/70 text-[9px] text-white font-mono">
+                      {holds?.[idx]}x
+                    </div>
+                  )}
+                  <div className={`absolute bottom-0 inset-x-0 text-[9px] text-center py-0.5 font-medium ${
+                    interpolated?.[idx] ? 'bg-amber-500/70 text-black' : 'bg-black/60 text-white'
+                  }`}>
+                    {frameLabels?.[idx] ?? (idx === 0 ? "ORIGINAL" : `FRAME ${idx}`)}
+                  </div>
+                </button>
+                {quality?.[idx]?.flags.length ? (
+                  <div
+                    title={describeQuality(quality[idx]!)}
+                    className="absolute bottom-5 left-1 z-20 p-1 rounded-full bg-amber-500 text-black shadow"
+                  >
+                    <Flag className="w-3 h-3" />
+                  </div>
+                ) : null}
+                {state?.status === 'failed' && onRetryFrame && (
+                  <button
+                    onClick={() => onRetryFrame(idx)}
+                    title={state.error ? `Retry (${state.error})` : 'Retry frame'}
+                    className="absolute top-1 right-1 z-20 p-1 rounded-full bg-red-600 text-white hover:bg-red-500 shadow"
+                  >
+                    <RotateCw className="w-3 h-3" />
+                  </button>
+                )}
+                {editor && !editor.disabled && (
+                  <button
+                    onClick={() => openMenu(idx)}
+                    title="Frame actions"
+                    className="absolute top-1 left-1 z-20 p-1 rounded-full bg-black/70 text-white opacity-0 group-hover/thumb:opacity-100 transition-opacity"
+                  >
+                    <MoreHorizontal className="w-3 h-3" />
+                  </button>
+                )}
               </div>
-            </button>
-          ))}
+            );
+          })}
         </div>
       </div>
+
+      {/* Frame actions, opened from a thumbnail's menu button or by right-clicking it */}
+      {editor && menuIndex !== null && menuIndex < frames.length && (
+        <div className="w-full bg-gray-800 border border-gray-700 rounded-lg p-3 space-y-3">
+          <div className="flex items-center justify-between text-sm text-gray-300">
+            <span>{frameLabels?.[menuIndex] ?? `Frame ${menuIndex}`}</span>
+            <button onClick={() => setMenuIndex(null)} className="p-1 rounded text-gray-400 hover:text-white" title="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {quality?.[menuIndex]?.flags.length ? (
+            <p className="flex items-start gap-1.5 text-xs text-amber-300">
+              <Flag className="w-3.5 h-3.5 shrink-0 mt-0.5" /> {describeQuality(quality[menuIndex]!)}
+            </p>
+          ) : null}
+          {!editor.isLocked(menuIndex) && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={promptOverride}
+                onChange={(e) => setPromptOverride(e.target.value)}
+                placeholder="Optional prompt override for this frame"
+                className="flex-1 px-3 py-1.5 bg-gray-900 border border-gray-600 rounded-md text-sm text-white placeholder-gray-500"
+              />
+              <button
+                onClick={() => runEdit(() => editor.regenerate(menuIndex, promptOverride.trim() || undefined))}
+                disabled={editor.disabled}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-indigo-600 text-white text-xs hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <Wand2 className="w-3.5 h-3.5" /> Regenerate
+              </button>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => runEdit(() => editor.duplicate(menuIndex))}
+              disabled={editor.disabled || !frames[menuIndex]}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-gray-700 text-gray-200 text-xs hover:bg-gray-600 disabled:opacity-50"
+            >
+              <Copy className="w-3.5 h-3.5" /> Duplicate (hold pose)
+            </button>
+            <button
+              onClick={() => runEdit(() => editor.insertAfter(menuIndex))}
+              disabled={editor.disabled || !frames[menuIndex] || !frames[menuIndex + 1]}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-gray-700 text-gray-200 text-xs hover:bg-gray-600 disabled:opacity-50"
+            >
+              <Plus className="w-3.5 h-3.5" /> Insert frame after
+            </button>
+            {!editor.isLocked(menuIndex) && (
+              <button
+                onClick={() => runEdit(() => editor.remove(menuIndex))}
+                disabled={editor.disabled}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-red-900/60 text-red-200 text-xs hover:bg-red-800 disabled:opacity-50"
+              >
+                <Trash2 className="w-3.5 h-3.5" /> Delete
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">Drag thumbnails to reorder.</p>
+        </div>
+      )}
     </div>
   );
 };
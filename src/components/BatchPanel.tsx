@@ -0,0 +1,291 @@
+import React, { useRef, useState } from 'react';
+import { Images, Upload, FolderUp, Play, XCircle, FolderOpen, Trash2, FileArchive, Loader2 } from 'lucide-react';
+import { BatchItem, BatchItemStatus, BatchOverrides } from '../types';
+import { batchItemProgress, createBatchItem } from '../services/batchService';
+import { errorMessage } from '../services/generationQueue';
+import { collectDroppedFiles, isImageFile, readNormalizedImage } from '../utils/imageInput';
+import { MOTION_PRESETS } from '../utils/motion';
+import { Button } from './Button';
+
+interface BatchPanelProps {
+  items: BatchItem[];
+  onItemsChange: (items: BatchItem[]) => void;
+  /** Appends new items to the latest list, which may have changed while they were read. */
+  onAddItems: (items: BatchItem[]) => void;
+  /** Shared settings from the editor, shown as what each row falls back to. */
+  sharedDescription: string;
+  sharedMotion: string;
+  sharedFrameCount: number;
+  isRunning: boolean;
+  onStart: () => void;
+  onCancel: () => void;
+  onOpen: (item: BatchItem) => void;
+  onExport: () => void;
+  /** Set while a single run or upscale is busy. */
+  disabled?: boolean;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'bg-slate-700 text-slate-300',
+  running: 'bg-indigo-600/30 text-indigo-300',
+  done: 'bg-emerald-600/20 text-emerald-300',
+  failed: 'bg-red-600/20 text-red-300',
+  cancelled: 'bg-amber-600/20 text-amber-300',
+};
+
+/**
+ * Runs the editor's motion setup over many images. Each row can override
+ * the description, motion and frame count; rows lock once they have started
+ * so their results always match their settings.
+ */
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  items, onItemsChange, onAddItems, sharedDescription, sharedMotion, sharedFrameCount,
+  isRunning, onStart, onCancel, onOpen, onExport, disabled,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [readErrors, setReadErrors] = useState<string[]>([]);
+  const busy = isRunning || isReading;
+
+  const addFiles = async (files: File[]) => {
+    const images = files.filter(isImageFile).sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    if (images.length === 0) return;
+    setIsReading(true);
+    const added: BatchItem[] = [];
+    const errors: string[] = [];
+    // One at a time, so a large folder doesn't hold every decoded bitmap at once
+    for (const file of images) {
+      try {
+        added.push(createBatchItem(file.name.replace(/\.[^.]+$/, ''), await readNormalizedImage(file)));
+      } catch (e) {
+        errors.push(`${file.name}: ${e instanceof Error ? e.message : 'Could not read this image.'}`);
+      }
+    }
+    setReadErrors(errors);
+    setIsReading(false);
+    if (added.length > 0) onAddItems(added);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    addFiles(files);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (busy) return;
+    try {
+      addFiles(await collectDroppedFiles(e.dataTransfer));
+    } catch (error) {
+      console.error("Failed to read dropped files", error);
+      setReadErrors([`The dropped files could not be read: ${errorMessage(error)}`]);
+    }
+  };
+
+  const setOverrides = (id: string, overrides: BatchOverrides) =>
+    onItemsChange(items.map(item => (item.id === id ? { ...item, overrides } : item)));
+
+  const progress = items.map(item => batchItemProgress(item, sharedFrameCount));
+  const completed = progress.reduce((sum, p) => sum + p.completed, 0);
+  const total = progress.reduce((sum, p) => sum + p.total, 0);
+  const counts: Partial<Record<BatchItemStatus, number>> = {};
+  items.forEach(item => {
+    counts[item.status] = (counts[item.status] ?? 0) + 1;
+  });
+  const remaining = items.filter(item => item.status !== 'done').length;
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 shadow-xl space-y-4">
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} multiple accept="image/png,image/jpeg,image/webp,image/gif,image/bmp" className="hidden" />
+      <input type="file" ref={folderInputRef} onChange={handleFileChange} {...{ webkitdirectory: '' }} className="hidden" />
+
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Images className="w-5 h-5" /> Batch
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="flex items-center gap-2 text-xs px-3 py-1.5 rounded-md border border-slate-700 bg-slate-900 text-slate-300 hover:border-slate-500 disabled:opacity-50"
+          >
+            <Upload className="w-3.5 h-3.5" /> Add images
+          </button>
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            disabled={busy}
+            className="flex items-center gap-2 text-xs px-3 py-1.5 rounded-md border border-slate-700 bg-slate-900 text-slate-300 hover:border-slate-500 disabled:opacity-50"
+          >
+            <FolderUp className="w-3.5 h-3.5" /> Add folder
+          </button>
+        </div>
+      </div>
+
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(!busy); }}
+        onDragLeave={(e) => { e.preventDefault(); setIsDragging(false); }}
+        onDrop={handleDrop}
+        className={`border-2 border-dashed rounded-xl p-4 text-center text-sm transition-colors ${
+          isDragging ? 'border-indigo-500 bg-indigo-500/10 text-indigo-200' : 'border-slate-700 text-slate-500'
+        }`}
+      >
+        {isReading
+          ? <span className="flex items-center justify-center gap-2"><Loader2 className="w-4 h-4 animate-spin" /> Reading images...</span>
+          : 'Drop images or folders here. Every image runs with the motion settings above unless its row overrides them.'}
+      </div>
+
+      {readErrors.length > 0 && (
+        <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-red-200 text-xs space-y-1">
+          <p className="font-medium">{readErrors.length} file{readErrors.length === 1 ? ' was' : 's were'} skipped:</p>
+          {readErrors.map(error => <p key={error}>{error}</p>)}
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-slate-400">
+              <span>
+                {items.length} image{items.length === 1 ? '' : 's'} · {completed}/{total} frames
+                {(['running', 'done', 'failed', 'cancelled'] as BatchItemStatus[])
+                  .filter(s => counts[s])
+                  .map(s => ` · ${counts[s]} ${s}`)
+                  .join('')}
+              </span>
+            </div>
+            <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${total ? (completed / total) * 100 : 0}%` }} />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1 pr-2 font-normal">Image</th>
+                  <th className="py-1 pr-2 font-normal">Subject & action</th>
+                  <th className="py-1 pr-2 font-normal">Motion</th>
+                  <th className="py-1 pr-2 font-normal">Frames</th>
+                  <th className="py-1 pr-2 font-normal">Progress</th>
+                  <th className="py-1 font-normal" />
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item, i) => {
+                  // Started rows keep the settings their frames were made with
+                  const locked = busy || item.frames.length > 0;
+                  const { overrides } = item;
+                  return (
+                    <tr key={item.id} className="border-t border-slate-700/60 align-middle">
+                      <td className="py-2 pr-2">
+                        <div className="flex items-center gap-2 min-w-[8rem]">
+                          <img src={item.image} alt={item.name} className="w-10 h-10 object-cover rounded border border-slate-700 bg-black" />
+                          <span className="truncate max-w-[8rem] text-slate-200" title={item.name}>{item.name}</span>
+                        </div>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          value={overrides.description ?? ''}
+                          onChange={(e) => setOverrides(item.id, { ...overrides, description: e.target.value || undefined })}
+                          placeholder={sharedDescription}
+                          disabled={locked}
+                          className="w-full min-w-[10rem] px-2 py-1 bg-slate-900 border border-slate-600 rounded-md text-white placeholder-slate-500 disabled:opacity-60"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <select
+                          value={overrides.motionPreset ?? ''}
+                          onChange={(e) => setOverrides(item.id, { ...overrides, motionPreset: e.target.value || undefined })}
+                          disabled={locked}
+                          title={overrides.motionPreset ? undefined : sharedMotion}
+                          className="px-2 py-1 bg-slate-900 border border-slate-600 rounded-md text-white disabled:opacity-60"
+                        >
+                          <option value="">Shared</option>
+                          {MOTION_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          min={2}
+                          max={30}
+                          value={overrides.frameCount ?? ''}
+                          onChange={(e) => setOverrides(item.id, {
+                            ...overrides,
+                            frameCount: e.target.value ? Math.min(30, Math.max(2, Math.round(Number(e.target.value)) || 2)) : undefined,
+                          })}
+                          placeholder={String(sharedFrameCount)}
+                          disabled={locked}
+                          className="w-14 px-2 py-1 bg-slate-900 border border-slate-600 rounded-md text-white placeholder-slate-500 disabled:opacity-60"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <div className="flex items-center gap-2">
+                          <span className={`px-1.5 py-0.5 rounded text-[10px] uppercase tracking-wide ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                          <span className="text-slate-400 whitespace-nowrap">{progress[i].completed}/{progress[i].total}</span>
+                        </div>
+                        {item.error && <p className="text-[10px] text-red-300 mt-1 max-w-[12rem] truncate" title={item.error}>{item.error}</p>}
+                      </td>
+                      <td className="py-2">
+                        <div className="flex items-center gap-1 justify-end">
+                          <button
+                            onClick={() => onOpen(item)}
+                            disabled={busy || disabled || item.frames.length === 0}
+                            title="Open in the editor"
+                            className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40"
+                          >
+                            <FolderOpen className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => onItemsChange(items.filter(other => other.id !== item.id))}
+                            disabled={busy}
+                            title="Remove from batch"
+                            className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-slate-700 disabled:opacity-40"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            {isRunning ? (
+              <Button onClick={onCancel} variant="danger" className="flex items-center gap-2">
+                <XCircle className="w-4 h-4" /> Cancel batch
+              </Button>
+            ) : (
+              <Button onClick={onStart} disabled={disabled || isReading || remaining === 0} className="flex items-center gap-2">
+                <Play className="w-4 h-4" />
+                {remaining === items.length ? `Generate ${items.length} sequences` : `Generate remaining ${remaining}`}
+              </Button>
+            )}
+            <Button
+              onClick={onExport}
+              disabled={busy || completed === 0}
+              variant="secondary"
+              className="flex items-center gap-2"
+            >
+              <FileArchive className="w-4 h-4" /> Download batch ZIP
+            </Button>
+            <button
+              onClick={() => onItemsChange([])}
+              disabled={busy}
+              className="ml-auto text-xs text-slate-500 hover:text-white disabled:opacity-50"
+            >
+              Clear batch
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
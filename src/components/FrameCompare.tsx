@@ -0,0 +1,269 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Loader2, SplitSquareHorizontal, X } from 'lucide-react';
+import { GeneratedFrame, UpscaleVariant } from '../types';
+import { diffHeatmap } from '../services/processing/diff';
+import { loadImage, rasterizeFrames } from '../utils/imageUtils';
+
+type CompareMode = 'split' | 'diff';
+
+interface FrameCompareProps {
+  frames: GeneratedFrame[];
+  /** Which upscaled version the split view compares against. */
+  upscaleVariant: UpscaleVariant;
+  labels?: string[];
+  initialIndex?: number;
+  onClose: () => void;
+}
+
+// What the viewer canvas shows: two images around the split line, or a precomputed heat map
+type Layers =
+  | { kind: 'split'; before: HTMLImageElement; after: HTMLImageElement | null }
+  | { kind: 'diff'; heatmap: ImageData; meanDifference: number };
+
+const LOUPE_SIZE = 160;
+const LOUPE_ZOOMS = [2, 4, 8];
+
+/**
+ * Full-screen comparison of a single frame: before/after upscale with a
+ * split slider, or the pixel difference to the previous frame, with a
+ * magnifying loupe under the pointer.
+ */
+export const FrameCompare: React.FC<FrameCompareProps> = ({ frames, upscaleVariant, labels, initialIndex = 0, onClose }) => {
+  const available = frames.map((frame, i) => (frame.imageUrl ? i : -1)).filter(i => i >= 0);
+  const [index, setIndex] = useState(available.includes(initialIndex) ? initialIndex : available[0] ?? 0);
+  const [mode, setMode] = useState<CompareMode>(frames.some(f => f.upscales?.[upscaleVariant]) ? 'split' : 'diff');
+  const [split, setSplit] = useState(0.5);
+  const [layers, setLayers] = useState<Layers | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Pointer position over the canvas, and where the loupe sits in the viewer
+  const [loupe, setLoupe] = useState<{ x: number; y: number; left: number; top: number } | null>(null);
+  const [zoom, setZoom] = useState(4);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const loupeRef = useRef<HTMLCanvasElement>(null);
+
+  const frame = frames[index];
+  const upscaled = frame?.upscales?.[upscaleVariant];
+  const previous = available[available.indexOf(index) - 1];
+
+  // Decode the images for the current frame and mode
+  useEffect(() => {
+    let cancelled = false;
+    setLayers(null);
+    setError(null);
+
+    const load = async (): Promise<Layers | null> => {
+      if (!frame?.imageUrl) return null;
+      if (mode === 'split') {
+        const [before, after] = await Promise.all([
+          loadImage(frame.imageUrl),
+          upscaled ? loadImage(upscaled) : Promise.resolve(null),
+        ]);
+        return { kind: 'split', before, after };
+      }
+      if (previous === undefined) return null;
+      // Compared at the current frame's size, so an upscaled neighbour still lines up
+      const [a, b] = await rasterizeFrames([frame.imageUrl, frames[previous].imageUrl]);
+      const { heatmap, meanDifference } = diffHeatmap(a, b);
+      const imageData = new ImageData(a.width, a.height);
+      imageData.data.set(heatmap.data);
+      return { kind: 'diff', heatmap: imageData, meanDifference };
+    };
+
+    load()
+      .then(result => {
+        if (!cancelled) setLayers(result);
+      })
+      .catch(e => {
+        console.error("Failed to prepare comparison", e);
+        if (!cancelled) setError("Could not decode the frames for comparison.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [frame, upscaled, mode, previous]);
+
+  // Composite at the native resolution, so the loupe shows real pixels
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !layers) return;
+
+    if (layers.kind === 'diff') {
+      canvas.width = layers.heatmap.width;
+      canvas.height = layers.heatmap.height;
+      ctx.putImageData(layers.heatmap, 0, 0);
+      return;
+    }
+
+    const { before, after } = layers;
+    if (!after) {
+      canvas.width = before.naturalWidth;
+      canvas.height = before.naturalHeight;
+      ctx.drawImage(before, 0, 0);
+      return;
+    }
+    canvas.width = after.naturalWidth;
+    canvas.height = after.naturalHeight;
+    ctx.drawImage(after, 0, 0);
+    const splitX = Math.round(canvas.width * split);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, splitX, canvas.height);
+    ctx.clip();
+    // The pre-upscale frame is stretched to the same size, as a viewer would see it
+    ctx.drawImage(before, 0, 0, canvas.width, canvas.height);
+    ctx.restore();
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(splitX - 1, 0, Math.max(2, Math.round(canvas.width / 400)), canvas.height);
+  }, [layers, split]);
+
+  // Redraw the loupe whenever the pointer or the composite changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = loupeRef.current?.getContext('2d');
+    if (!canvas || !ctx || !loupe) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    const sourceSize = (LOUPE_SIZE / zoom) * scale;
+    ctx.imageSmoothingEnabled = false;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, LOUPE_SIZE, LOUPE_SIZE);
+    ctx.drawImage(
+      canvas,
+      loupe.x * scale - sourceSize / 2,
+      loupe.y * scale - sourceSize / 2,
+      sourceSize,
+      sourceSize,
+      0,
+      0,
+      LOUPE_SIZE,
+      LOUPE_SIZE,
+    );
+  }, [loupe, zoom, layers, split]);
+
+  const handlePointerMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const viewer = e.currentTarget.parentElement!.getBoundingClientRect();
+    const left = e.clientX - viewer.left;
+    const top = e.clientY - viewer.top;
+    // Keep the loupe beside the pointer, flipping sides near the viewer's edges
+    setLoupe({
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top,
+      left: left + 24 + LOUPE_SIZE < viewer.width ? left + 24 : left - 24 - LOUPE_SIZE,
+      top: top + 24 + LOUPE_SIZE < viewer.height ? top + 24 : Math.max(0, top - 24 - LOUPE_SIZE),
+    });
+  };
+
+  const go = (direction: 1 | -1) => {
+    const next = available[available.indexOf(index) + direction];
+    if (next !== undefined) setIndex(next);
+  };
+
+  const label = (i: number) => labels?.[i] ?? `Frame ${i}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm overflow-y-auto p-6">
+      <div className="max-w-5xl mx-auto bg-slate-900 border border-slate-700 rounded-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <SplitSquareHorizontal className="w-5 h-5" /> Compare frames
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-400">
+          <div className="flex items-center gap-2">
+            <button onClick={() => go(-1)} className="p-1.5 rounded-md hover:bg-slate-800 hover:text-white" title="Previous frame">
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-sm text-slate-200 min-w-24 text-center">{label(index)}</span>
+            <button onClick={() => go(1)} className="p-1.5 rounded-md hover:bg-slate-800 hover:text-white" title="Next frame">
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex rounded-md overflow-hidden border border-slate-700">
+            {([['split', 'Before / after upscale'], ['diff', 'Difference to previous']] as const).map(([id, text]) => (
+              <button
+                key={id}
+                onClick={() => setMode(id)}
+                className={`px-3 py-1.5 transition-colors ${mode === id ? 'bg-indigo-600 text-white' : 'bg-slate-800 hover:bg-slate-700'}`}
+              >
+                {text}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2">
+            Loupe
+            <select
+              value={zoom}
+              onChange={(e) => setZoom(Number(e.target.value))}
+              className="px-2 py-1 bg-slate-900 border border-slate-600 rounded-md text-white"
+            >
+              {LOUPE_ZOOMS.map(z => <option key={z} value={z}>{z}x</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="relative w-full bg-black/50 rounded-xl overflow-hidden border border-slate-700 flex items-center justify-center min-h-64">
+          {layers ? (
+            <canvas
+              ref={canvasRef}
+              onMouseMove={handlePointerMove}
+              onMouseLeave={() => setLoupe(null)}
+              className="max-w-full max-h-[65vh] cursor-crosshair"
+            />
+          ) : (
+            <div className="py-24 text-sm text-slate-500 flex items-center gap-2">
+              {error ?? (
+                !frame?.imageUrl
+                  ? 'No finished frames to compare.'
+                  : mode === 'diff' && previous === undefined
+                    ? 'The first frame has no previous frame to compare with.'
+                    : <><Loader2 className="w-4 h-4 animate-spin" /> Preparing comparison…</>
+              )}
+            </div>
+          )}
+          {loupe && layers && (
+            <canvas
+              ref={loupeRef}
+              width={LOUPE_SIZE}
+              height={LOUPE_SIZE}
+              className="absolute pointer-events-none rounded-full border-2 border-white shadow-xl"
+              style={{ left: loupe.left, top: loupe.top, width: LOUPE_SIZE, height: LOUPE_SIZE }}
+            />
+          )}
+        </div>
+
+        {layers?.kind === 'split' && (
+          layers.after ? (
+            <label className="flex items-center gap-3 text-xs text-slate-400">
+              <span>Original</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.005}
+                value={split}
+                onChange={(e) => setSplit(Number(e.target.value))}
+                className="flex-1 accent-indigo-500"
+              />
+              <span>Upscaled {upscaleVariant}</span>
+            </label>
+          ) : (
+            <p className="text-xs text-slate-500">This frame has no {upscaleVariant} version yet, so there is nothing to compare it with.</p>
+          )
+        )}
+        {layers?.kind === 'diff' && previous !== undefined && (
+          <p className="text-xs text-slate-400">
+            {label(index)} vs {label(previous)}: mean difference {(layers.meanDifference * 100).toFixed(1)}%.
+            Dark areas are unchanged; blue, red and yellow mark increasingly large changes.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
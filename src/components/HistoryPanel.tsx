@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { History, FolderOpen, Copy, Trash2, Columns2, X, ImageOff, Upload } from 'lucide-react';
+import { ProjectSnapshot, ProjectSummary } from '../types';
+import { deleteProject, duplicateProject, listProjects, loadProject } from '../services/projectStore';
+import { BUNDLE_EXTENSION } from '../services/projectBundle';
+import { summarizeMotion } from '../utils/motion';
+import { AnimationPlayer } from './AnimationPlayer';
+
+interface HistoryPanelProps {
+  /** Bump to reload the list, e.g. after the current run was saved. */
+  refreshToken: number;
+  activeProjectId: string | null;
+  onOpen: (project: ProjectSnapshot) => void;
+  /** Opens a project file exported from this or another browser. */
+  onImport: (file: File) => void;
+  disabled?: boolean;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Saved runs from the local project store, with open, duplicate,
+ * delete, project file import and a side-by-side comparison of two runs.
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ refreshToken, activeProjectId, onOpen, onImport, disabled }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<ProjectSnapshot[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    listProjects()
+      .then(setProjects)
+      .catch(e => {
+        console.error("Failed to load history", e);
+        setError("History is unavailable in this browser.");
+      });
+  };
+
+  useEffect(refresh, [refreshToken]);
+
+  // Object URLs for the stored thumbnails, released when the list changes
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    projects.forEach(p => {
+      if (p.thumbnail) urls[p.id] = URL.createObjectURL(p.thumbnail);
+    });
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [projects]);
+
+  const handleOpen = async (id: string) => {
+    setError(null);
+    try {
+      const project = await loadProject(id);
+      if (project) onOpen(project);
+      else setError("This run is no longer in history.");
+    } catch (e) {
+      console.error("Failed to open run", e);
+      setError("Could not open this run.");
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    setError(null);
+    try {
+      await duplicateProject(id);
+      refresh();
+    } catch (e) {
+      console.error("Failed to duplicate run", e);
+      setError("Could not duplicate this run.");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this run from history?")) return;
+    setError(null);
+    try {
+      await deleteProject(id);
+      setCompareIds(prev => prev.filter(c => c !== id));
+      refresh();
+    } catch (e) {
+      console.error("Failed to delete run", e);
+      setError("Could not delete this run.");
+    }
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(c => c !== id);
+      // Keep the most recent two selections
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const handleCompare = async () => {
+    setError(null);
+    try {
+      const loaded = await Promise.all(compareIds.map(loadProject));
+      setComparison(loaded.filter((p): p is ProjectSnapshot => p !== null));
+    } catch (e) {
+      console.error("Failed to load runs for comparison", e);
+      setError("Could not load the runs to compare.");
+    }
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 shadow-xl">
+      <input type="file" ref={fileInputRef} onChange={handleImport} accept={`${BUNDLE_EXTENSION},application/zip`} className="hidden" />
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <History className="w-5 h-5" /> History
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            title={`Open a ${BUNDLE_EXTENSION} project file`}
+            className="flex items-center gap-2 text-xs px-3 py-1.5 rounded-md border border-slate-700 bg-slate-900 text-slate-300 hover:border-slate-500 disabled:opacity-50"
+          >
+            <Upload className="w-3.5 h-3.5" /> Import project
+          </button>
+          <button
+            onClick={handleCompare}
+            disabled={compareIds.length !== 2}
+            className="flex items-center gap-2 text-xs px-3 py-1.5 rounded-md border border-slate-700 bg-slate-900 text-slate-300 hover:border-slate-500 disabled:opacity-50"
+          >
+            <Columns2 className="w-3.5 h-3.5" /> Compare selected ({compareIds.length}/2)
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-300 mb-3">{error}</p>}
+      {!error && projects.length === 0 && (
+        <p className="text-sm text-slate-500">Runs are saved here automatically as they generate.</p>
+      )}
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {projects.map(project => (
+          <div
+            key={project.id}
+            className={`flex gap-3 p-2 rounded-lg border bg-slate-900 ${
+              project.id === activeProjectId ? 'border-indigo-500' : 'border-slate-700'
+            }`}
+          >
+            <div className="w-16 h-16 flex-shrink-0 rounded-md overflow-hidden bg-black/50 flex items-center justify-center">
+              {thumbnails[project.id]
+                ? <img src={thumbnails[project.id]} alt={project.name} className="w-full h-full object-cover" />
+                : <ImageOff className="w-5 h-5 text-slate-600" />}
+            </div>
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-slate-200 truncate" title={project.name}>{project.name}</p>
+              <p className="text-xs text-slate-500">{formatDate(project.updatedAt)} · {project.frameCount} frames</p>
+              <div className="flex items-center gap-1 mt-1">
+                <button onClick={() => handleOpen(project.id)} disabled={disabled} title="Open" className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-50">
+                  <FolderOpen className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleDuplicate(project.id)} title="Duplicate" className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700">
+                  <Copy className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleDelete(project.id)} disabled={disabled && project.id === activeProjectId} title="Delete" className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-slate-700 disabled:opacity-50">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+                <label className="ml-auto text-[10px] text-slate-500 flex items-center gap-1" title="Select for comparison">
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(project.id)}
+                    onChange={() => toggleCompare(project.id)}
+                    className="accent-indigo-500"
+                  />
+                  Compare
+                </label>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {comparison && (
+        <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm overflow-y-auto p-6">
+          <div className="max-w-6xl mx-auto bg-slate-900 border border-slate-700 rounded-2xl p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold flex items-center gap-2">
+                <Columns2 className="w-5 h-5" /> Compare runs
+              </h3>
+              <button onClick={() => setComparison(null)} className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-800">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="grid md:grid-cols-2 gap-6">
+              {comparison.map(project => (
+                <div key={project.id} className="space-y-3">
+                  <div className="text-sm">
+                    <p className="text-slate-200 font-medium">{project.name}</p>
+                    <p className="text-slate-500 text-xs">
+                      {project.settings.providerId} · {project.settings.mode} · {project.settings.timing.frameCount} frames @ {project.settings.timing.fps} fps · {project.settings.timing.easing.type}
+                    </p>
+                    <p className="text-slate-400 text-xs mt-1">
+                      {project.endImage ? 'In-betweens between two keyframes' : summarizeMotion(project.settings.motion)}
+                    </p>
+                  </div>
+                  <AnimationPlayer
+                    frames={project.frames.map(f => f.imageUrl)}
+                    fps={project.settings.timing.fps}
+                    holds={project.frames.map(f => f.hold)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Crop, X } from 'lucide-react';
+import { AspectRatio } from '../types';
+import { ASPECT_RATIO_VALUES } from '../utils/imageUtils';
+import {
+  CropRect, DEFAULT_MAX_DIMENSION, InputImage, MAX_DIMENSION_OPTIONS, centeredCrop, normalizeImage, normalizedSize,
+} from '../utils/imageInput';
+import { Button } from './Button';
+
+interface ImageCropperProps {
+  input: InputImage;
+  /** Ratios the crop box can lock to; defaults to every AspectRatio. */
+  aspectRatios?: AspectRatio[];
+  /** Receives the cropped, resized and re-encoded image as a data URL. */
+  onConfirm: (image: string) => void;
+  onCancel: () => void;
+}
+
+// Smallest crop box edge, in source pixels
+const MIN_CROP = 32;
+
+// Nearest supported ratio to the image itself, so the default crop removes as little as possible
+const closestRatio = (width: number, height: number, ratios: AspectRatio[]) =>
+  ratios.reduce((best, r) =>
+    Math.abs(ASPECT_RATIO_VALUES[r] - width / height) < Math.abs(ASPECT_RATIO_VALUES[best] - width / height) ? r : best,
+  );
+
+/**
+ * Crop step for uploads: a box locked to a supported aspect ratio that
+ * can be dragged and resized, plus a cap on the output's longest side.
+ */
+export const ImageCropper: React.FC<ImageCropperProps> = ({
+  input, aspectRatios = Object.keys(ASPECT_RATIO_VALUES) as AspectRatio[], onConfirm, onCancel,
+}) => {
+  const { bitmap } = input;
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(() => closestRatio(bitmap.width, bitmap.height, aspectRatios));
+  const [crop, setCrop] = useState<CropRect>(() => centeredCrop(bitmap.width, bitmap.height, aspectRatio));
+  const [maxDimension, setMaxDimension] = useState(DEFAULT_MAX_DIMENSION);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Pointer position and crop box when a drag started
+  const dragRef = useRef<{ mode: 'move' | 'resize'; x: number; y: number; crop: CropRect } | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    ctx.drawImage(bitmap, 0, 0);
+  }, [bitmap]);
+
+  const changeAspectRatio = (ratio: AspectRatio) => {
+    setAspectRatio(ratio);
+    setCrop(centeredCrop(bitmap.width, bitmap.height, ratio));
+  };
+
+  const handlePointerDown = (mode: 'move' | 'resize') => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, x: e.clientX, y: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const canvas = canvasRef.current;
+    if (!drag || !canvas) return;
+    // Client pixels to source pixels
+    const scale = bitmap.width / canvas.getBoundingClientRect().width;
+    const dx = (e.clientX - drag.x) * scale;
+    const dy = (e.clientY - drag.y) * scale;
+    const start = drag.crop;
+
+    if (drag.mode === 'move') {
+      setCrop({
+        ...start,
+        x: Math.min(bitmap.width - start.width, Math.max(0, start.x + dx)),
+        y: Math.min(bitmap.height - start.height, Math.max(0, start.y + dy)),
+      });
+      return;
+    }
+    // Resize from the bottom-right corner, keeping the ratio and staying inside the image
+    const ratio = ASPECT_RATIO_VALUES[aspectRatio];
+    const maxWidth = Math.min(bitmap.width - start.x, (bitmap.height - start.y) * ratio);
+    const width = Math.min(maxWidth, Math.max(MIN_CROP, start.width + Math.max(dx, dy * ratio)));
+    setCrop({ ...start, width, height: width / ratio });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const output = normalizedSize(crop, maxDimension);
+  const format = input.mimeType === 'image/jpeg' ? 'JPEG' : 'PNG';
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm overflow-y-auto p-6">
+      <div className="max-w-4xl mx-auto bg-slate-900 border border-slate-700 rounded-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Crop className="w-5 h-5" /> Crop image
+          </h3>
+          <button onClick={onCancel} className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-400">
+          <div className="flex rounded-md overflow-hidden border border-slate-700">
+            {aspectRatios.map(ratio => (
+              <button
+                key={ratio}
+                onClick={() => changeAspectRatio(ratio)}
+                className={`px-3 py-1.5 transition-colors ${aspectRatio === ratio ? 'bg-indigo-600 text-white' : 'bg-slate-800 hover:bg-slate-700'}`}
+              >
+                {ratio}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2">
+            Max size
+            <select
+              value={maxDimension}
+              onChange={(e) => setMaxDimension(Number(e.target.value))}
+              className="px-2 py-1 bg-slate-900 border border-slate-600 rounded-md text-white"
+            >
+              {MAX_DIMENSION_OPTIONS.map(d => <option key={d} value={d}>{d}px</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex justify-center bg-black/50 rounded-xl border border-slate-700 p-2">
+          <div
+            className="relative overflow-hidden select-none touch-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <canvas ref={canvasRef} className="block max-w-full max-h-[60vh]" />
+            <div
+              onPointerDown={handlePointerDown('move')}
+              className="absolute border-2 border-white cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.6)]"
+              style={{
+                left: percent(crop.x, bitmap.width),
+                top: percent(crop.y, bitmap.height),
+                width: percent(crop.width, bitmap.width),
+                height: percent(crop.height, bitmap.height),
+              }}
+            >
+              <div
+                onPointerDown={handlePointerDown('resize')}
+                className="absolute right-0 bottom-0 w-4 h-4 bg-white rounded-sm cursor-nwse-resize"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs text-slate-400">
+            Output {output.width}×{output.height} {format}
+            {input.orientation !== 1 && ' · EXIF orientation corrected'}
+          </p>
+          <div className="flex gap-2">
+            <Button onClick={onCancel} variant="secondary">Cancel</Button>
+            <Button onClick={() => onConfirm(normalizeImage(input, crop, maxDimension))} variant="primary">
+              Use image
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,34 +1,75 @@
 import React, { useRef, useState } from 'react';
-import { Upload, Image as ImageIcon } from 'lucide-react';
+import { Upload, Image as ImageIcon, X } from 'lucide-react';
+import { AspectRatio } from '../types';
+import { InputImage, readInputImage } from '../utils/imageInput';
+import { ImageCropper } from './ImageCropper';
 
 interface ImageUploaderProps {
   onImageSelect: (base64: string) => void;
   selectedImage: string | null;
+  /** Keyframe mode: passing a handler shows a second slot for the end frame. */
+  endImage?: string | null;
+  onEndImageSelect?: (base64: string | null) => void;
+  /** Ratios the crop step offers; the provider's supported ones. */
+  aspectRatios?: AspectRatio[];
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, selectedImage }) => {
+interface ImageSlotProps {
+  onImageSelect: (base64: string) => void;
+  selectedImage: string | null;
+  label: string;
+  aspectRatios?: AspectRatio[];
+  compact?: boolean;
+  onClear?: () => void;
+}
+
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, selectedImage, endImage, onEndImageSelect, aspectRatios }) => {
+  if (!onEndImageSelect) {
+    return <ImageSlot onImageSelect={onImageSelect} selectedImage={selectedImage} label="Original Frame" aspectRatios={aspectRatios} />;
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <ImageSlot onImageSelect={onImageSelect} selectedImage={selectedImage} label="Start Frame" aspectRatios={aspectRatios} compact />
+      <ImageSlot
+        onImageSelect={onEndImageSelect}
+        selectedImage={endImage ?? null}
+        label="End Frame"
+        aspectRatios={aspectRatios}
+        compact
+        onClear={() => onEndImageSelect(null)}
+      />
+    </div>
+  );
+};
+
+const ImageSlot: React.FC<ImageSlotProps> = ({ onImageSelect, selectedImage, label, aspectRatios, compact, onClear }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
+  // Decoded upload waiting in the crop step
+  const [pending, setPending] = useState<InputImage | null>(null);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Allow picking the same file again after cancelling the crop
+    event.target.value = '';
     if (file) {
       processFile(file);
     }
   };
 
-  const processFile = (file: File) => {
-    if (!file.type.startsWith('image/')) {
-      alert('Please upload an image file.');
-      return;
+  const processFile = async (file: File) => {
+    try {
+      setPending(await readInputImage(file));
+    } catch (e) {
+      console.error("Failed to read image", e);
+      alert(e instanceof Error ? e.message : 'Could not read this image.');
     }
-    
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      onImageSelect(result);
-    };
-    reader.readAsDataURL(file);
+  };
+
+  const closeCropper = () => {
+    pending?.bitmap.close();
+    setPending(null);
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -56,10 +97,22 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, sel
         type="file"
         ref={fileInputRef}
         onChange={handleFileChange}
-        accept="image/*"
+        accept="image/png,image/jpeg,image/webp,image/gif,image/bmp"
         className="hidden"
       />
-      
+
+      {pending && (
+        <ImageCropper
+          input={pending}
+          aspectRatios={aspectRatios}
+          onConfirm={(image) => {
+            onImageSelect(image);
+            closeCropper();
+          }}
+          onCancel={closeCropper}
+        />
+      )}
+
       {!selectedImage ? (
         <div
           onClick={() => fileInputRef.current?.click()}
@@ -68,7 +121,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, sel
           onDrop={handleDrop}
           className={`
             border-2 border-dashed rounded-xl p-10 text-center cursor-pointer transition-all duration-200
-            flex flex-col items-center justify-center gap-4 h-64
+            flex flex-col items-center justify-center gap-4 ${compact ? 'h-48 p-4' : 'h-64'}
             ${isDragging 
               ? 'border-indigo-500 bg-indigo-500/10' 
               : 'border-gray-600 hover:border-indigo-400 hover:bg-gray-800'
@@ -79,31 +132,39 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, sel
             <Upload className="w-8 h-8 text-indigo-400" />
           </div>
           <div>
-            <p className="text-lg font-medium text-gray-200">
-              Click to upload or drag and drop
+            <p className={`${compact ? 'text-sm' : 'text-lg'} font-medium text-gray-200`}>
+              {compact ? label : 'Click to upload or drag and drop'}
             </p>
             <p className="text-sm text-gray-400 mt-1">
-              SVG, PNG, JPG or GIF (max. 5MB)
+              PNG, JPG, WebP or GIF (max. 5MB)
             </p>
           </div>
         </div>
       ) : (
-        <div className="relative group rounded-xl overflow-hidden border border-gray-700 bg-black/50 aspect-video flex items-center justify-center">
+        <div className={`relative group rounded-xl overflow-hidden border border-gray-700 bg-black/50 flex items-center justify-center ${compact ? 'aspect-square' : 'aspect-video'}`}>
            <img 
             src={selectedImage} 
             alt="Original" 
             className="max-h-full max-w-full object-contain"
           />
-          <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col items-center justify-center gap-2">
             <button 
               onClick={() => fileInputRef.current?.click()}
               className="px-4 py-2 bg-white/10 backdrop-blur-md hover:bg-white/20 text-white rounded-lg flex items-center gap-2 transition-colors"
             >
               <Upload className="w-4 h-4" /> Change Image
             </button>
+            {onClear && (
+              <button
+                onClick={onClear}
+                className="px-3 py-1 text-xs text-gray-300 hover:text-white flex items-center gap-1"
+              >
+                <X className="w-3 h-3" /> Remove
+              </button>
+            )}
           </div>
           <div className="absolute top-2 left-2 px-2 py-1 bg-black/70 rounded text-xs text-white font-medium">
-            Original Frame
+            {label}
           </div>
         </div>
       )}
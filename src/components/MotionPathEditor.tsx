@@ -0,0 +1,100 @@
+import React, { useRef, useState } from 'react';
+import { PathPoint } from '../types';
+import { simplifyPath } from '../utils/motion';
+
+interface MotionPathEditorProps {
+  image: string;
+  path?: PathPoint[];
+  onChange: (path: PathPoint[] | undefined) => void;
+  /** Per-frame subject positions to preview along the path. */
+  markers?: PathPoint[];
+  disabled?: boolean;
+}
+
+/**
+ * Lets the user draw the subject's path directly on top of the source image.
+ * Points are stored in normalized image coordinates.
+ */
+export const MotionPathEditor: React.FC<MotionPathEditorProps> = ({ image, path, onChange, markers, disabled }) => {
+  const overlayRef = useRef<SVGSVGElement>(null);
+  const [draft, setDraft] = useState<PathPoint[] | null>(null);
+
+  const toPoint = (e: React.PointerEvent): PathPoint => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft([toPoint(e)]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!draft) return;
+    setDraft([...draft, toPoint(e)]);
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    const simplified = simplifyPath(draft);
+    setDraft(null);
+    onChange(simplified.length > 1 ? simplified : undefined);
+  };
+
+  const shown = draft ?? path ?? [];
+  const points = shown.map(p => `${p.x * 100},${p.y * 100}`).join(' ');
+
+  return (
+    <div className="space-y-2">
+      <div className="relative rounded-lg overflow-hidden border border-slate-700 bg-black/50">
+        <img src={image} alt="Path canvas" className="w-full h-auto block select-none pointer-events-none" />
+        <svg
+          ref={overlayRef}
+          viewBox="0 0 100 100"
+          preserveAspectRatio="none"
+          className={`absolute inset-0 w-full h-full touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {shown.length > 1 && (
+            <polyline
+              points={points}
+              fill="none"
+              stroke="#a78bfa"
+              strokeWidth={2}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {shown.length > 0 && (
+            <circle cx={shown[0].x * 100} cy={shown[0].y * 100} r={1.5} fill="#22c55e" />
+          )}
+          {!draft && markers?.map((m, i) => (
+            <circle key={i} cx={m.x * 100} cy={m.y * 100} r={1} fill="#f472b6" />
+          ))}
+        </svg>
+        {shown.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <span className="px-2 py-1 bg-black/70 rounded text-xs text-white">Drag from the subject to draw its path</span>
+          </div>
+        )}
+      </div>
+      {path && (
+        <button
+          onClick={() => onChange(undefined)}
+          disabled={disabled}
+          className="text-xs text-slate-400 hover:text-white underline"
+        >
+          Clear path
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import {
+  Move, ArrowLeft, ArrowRight, ArrowUp, ArrowDown, ArrowUpLeft, ArrowUpRight, ArrowDownLeft, ArrowDownRight,
+  ZoomIn, ZoomOut, RotateCw, RotateCcw, Orbit, PenLine,
+} from 'lucide-react';
+import { MotionDescription, PathPoint } from '../types';
+import { MOTION_PRESETS, applyPreset, summarizeMotion, hasPath } from '../utils/motion';
+import { MotionPathEditor } from './MotionPathEditor';
+
+interface MotionSettingsProps {
+  motion: MotionDescription;
+  onChange: (motion: MotionDescription) => void;
+  /** Source image, needed for drawing a path. */
+  image: string | null;
+  /** Per-frame positions along the drawn path, for preview. */
+  pathMarkers?: PathPoint[];
+  disabled?: boolean;
+}
+
+const PRESET_ICONS: Record<string, React.ElementType> = {
+  'up-left': ArrowUpLeft,
+  'up': ArrowUp,
+  'up-right': ArrowUpRight,
+  'left': ArrowLeft,
+  'zoom-in': ZoomIn,
+  'right': ArrowRight,
+  'down-left': ArrowDownLeft,
+  'down': ArrowDown,
+  'down-right': ArrowDownRight,
+  'zoom-out': ZoomOut,
+  'rotate-cw': RotateCw,
+  'rotate-ccw': RotateCcw,
+  'orbit-left': Orbit,
+  'orbit-right': Orbit,
+};
+
+interface SliderSpec {
+  key: 'translateX' | 'translateY' | 'zoom' | 'rotation' | 'orbit';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (v: number) => string;
+}
+
+const SLIDERS: SliderSpec[] = [
+  { key: 'translateX', label: 'Horizontal', min: -0.6, max: 0.6, step: 0.01, format: v => `${Math.round(v * 100)}%` },
+  { key: 'translateY', label: 'Vertical', min: -0.6, max: 0.6, step: 0.01, format: v => `${Math.round(v * 100)}%` },
+  { key: 'zoom', label: 'Zoom', min: 0.4, max: 2.5, step: 0.05, format: v => `${v.toFixed(2)}x` },
+  { key: 'rotation', label: 'Rotation', min: -180, max: 180, step: 5, format: v => `${v}°` },
+  { key: 'orbit', label: 'Orbit', min: -90, max: 90, step: 5, format: v => `${v}°` },
+];
+
+export const MotionSettings: React.FC<MotionSettingsProps> = ({ motion, onChange, image, pathMarkers, disabled }) => {
+  const [combine, setCombine] = useState(false);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const pathActive = hasPath(motion);
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-slate-400 flex items-center gap-2">
+        <Move className="w-4 h-4" /> Movement
+      </label>
+
+      <div className="grid grid-cols-3 gap-2">
+        {MOTION_PRESETS.map((preset) => {
+          const Icon = PRESET_ICONS[preset.id] ?? Move;
+          return (
+            <button
+              key={preset.id}
+              onClick={() => onChange(applyPreset(motion, preset, combine))}
+              disabled={disabled}
+              className="flex flex-col items-center justify-center p-3 rounded-lg border transition-all bg-slate-900 border-slate-700 text-slate-400 hover:border-slate-500 hover:bg-slate-800"
+            >
+              <Icon className={`w-5 h-5 mb-1 text-slate-500 ${preset.id === 'orbit-left' ? '-scale-x-100' : ''}`} />
+              <span className="text-xs font-medium">{preset.label}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <label className="text-xs text-slate-400 flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={combine}
+          onChange={(e) => setCombine(e.target.checked)}
+          disabled={disabled}
+          className="accent-indigo-500"
+        />
+        Combine presets with the current movement
+      </label>
+
+      <div className="p-3 bg-indigo-500/10 border border-indigo-500/30 rounded-lg text-sm text-indigo-200">
+        {summarizeMotion(motion)}
+      </div>
+
+      <div className="space-y-2">
+        {SLIDERS.map(slider => {
+          const lockedByPath = pathActive && (slider.key === 'translateX' || slider.key === 'translateY');
+          return (
+            <label key={slider.key} className="grid grid-cols-[5rem_1fr_3.5rem] items-center gap-2 text-xs text-slate-400">
+              <span>{slider.label}</span>
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                value={motion[slider.key]}
+                disabled={disabled || lockedByPath}
+                onChange={(e) => onChange({ ...motion, [slider.key]: Number(e.target.value) })}
+                className="accent-indigo-500"
+              />
+              <span className="text-right font-mono">{lockedByPath ? 'path' : slider.format(motion[slider.key])}</span>
+            </label>
+          );
+        })}
+      </div>
+
+      <div>
+        <button
+          onClick={() => setIsDrawing(!isDrawing)}
+          disabled={disabled || !image}
+          className={`flex items-center gap-2 text-xs px-3 py-1.5 rounded-md border transition-colors disabled:opacity-50 ${
+            isDrawing || pathActive
+              ? 'bg-indigo-600 border-indigo-500 text-white'
+              : 'bg-slate-900 border-slate-700 text-slate-400 hover:border-slate-500'
+          }`}
+        >
+          <PenLine className="w-3.5 h-3.5" />
+          {isDrawing ? 'Hide path editor' : pathActive ? 'Edit drawn path' : 'Draw a custom path'}
+        </button>
+        {isDrawing && image && (
+          <div className="mt-3">
+            <MotionPathEditor
+              image={image}
+              path={motion.path}
+              onChange={(path) => onChange({ ...motion, path })}
+              markers={pathMarkers}
+              disabled={disabled}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useRef, useState } from 'react';
+import { Copy, Download, FileText, Pencil, Trash2, Upload } from 'lucide-react';
+import { PromptTemplate } from '../types';
+import { PROMPT_VARIABLES } from '../services/prompts';
+import { createPresetId, exportPresets, parsePresets } from '../services/presetStore';
+import { downloadBlob } from '../utils/imageUtils';
+import { Button } from './Button';
+
+/** Which of a template's prompts is being edited or previewed. */
+export type PromptKind = 'frame' | 'chained' | 'inbetween' | 'upscale';
+
+const PROMPT_KINDS: { id: PromptKind; label: string }[] = [
+  { id: 'frame', label: 'Frame' },
+  { id: 'chained', label: 'Chained frame' },
+  { id: 'inbetween', label: 'In-between' },
+  { id: 'upscale', label: 'Upscale' },
+];
+
+interface PromptTemplatePanelProps {
+  builtIn: PromptTemplate[];
+  userPresets: PromptTemplate[];
+  onUserPresetsChange: (presets: PromptTemplate[]) => void;
+  selectedId: string;
+  onSelect: (id: string) => void;
+  /** Renders a prompt of the template with the current settings. */
+  renderPreview: (template: PromptTemplate, kind: PromptKind) => string;
+  disabled?: boolean;
+}
+
+/**
+ * Picks the prompt template for generation and upscaling. Built-in presets
+ * can be copied into user presets, which are editable, stored in this
+ * browser and can be moved between machines as JSON.
+ */
+export const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = ({
+  builtIn, userPresets, onUserPresetsChange, selectedId, onSelect, renderPreview, disabled,
+}) => {
+  const [draft, setDraft] = useState<PromptTemplate | null>(null);
+  const [kind, setKind] = useState<PromptKind>('frame');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const selected = [...builtIn, ...userPresets].find(t => t.id === selectedId) ?? builtIn[0];
+
+  const startEditing = () => {
+    // Built-ins are never changed in place; editing one starts a copy
+    setDraft(selected.builtIn
+      ? { ...selected, id: createPresetId(), name: `${selected.name} (custom)`, builtIn: undefined }
+      : { ...selected });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const preset = { ...draft, name: draft.name.trim() || 'Untitled preset' };
+    const exists = userPresets.some(p => p.id === preset.id);
+    onUserPresetsChange(exists ? userPresets.map(p => (p.id === preset.id ? preset : p)) : [...userPresets, preset]);
+    onSelect(preset.id);
+    setDraft(null);
+  };
+
+  const handleDelete = () => {
+    if (selected.builtIn || !window.confirm(`Delete the preset "${selected.name}"?`)) return;
+    onUserPresetsChange(userPresets.filter(p => p.id !== selected.id));
+    onSelect(builtIn[0].id);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresets(await file.text());
+      onUserPresetsChange([...userPresets, ...imported]);
+      onSelect(imported[0].id);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Could not import presets.");
+    }
+  };
+
+  // Inserts the placeholder at the cursor, replacing any selection
+  const insertVariable = (name: string) => {
+    const textarea = textareaRef.current;
+    if (!draft || !textarea) return;
+    const value = draft[kind];
+    const token = `{${name}}`;
+    const start = textarea.selectionStart;
+    setDraft({ ...draft, [kind]: value.slice(0, start) + token + value.slice(textarea.selectionEnd) });
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <input type="file" ref={fileInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+      <label className="block text-sm font-medium text-slate-400 flex items-center gap-2">
+        <FileText className="w-4 h-4" /> Prompt template
+      </label>
+      <div className="flex items-center gap-2">
+        <select
+          value={selected.id}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={disabled || draft !== null}
+          className="flex-1 min-w-0 px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-sm text-white"
+        >
+          <optgroup label="Built-in">
+            {builtIn.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </optgroup>
+          {userPresets.length > 0 && (
+            <optgroup label="Your presets">
+              {userPresets.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button
+          onClick={startEditing}
+          disabled={disabled || draft !== null}
+          title={selected.builtIn ? 'Copy into a new preset and edit it' : 'Edit preset'}
+          className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-50"
+        >
+          {selected.builtIn ? <Copy className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+        </button>
+        {!selected.builtIn && (
+          <button
+            onClick={handleDelete}
+            disabled={disabled || draft !== null}
+            title="Delete preset"
+            className="p-1.5 rounded-md text-slate-400 hover:text-red-400 hover:bg-slate-700 disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          title="Import presets from JSON"
+          className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-50"
+        >
+          <Upload className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => downloadBlob(exportPresets(userPresets), 'motiongen-presets.json')}
+          disabled={userPresets.length === 0}
+          title="Export your presets as JSON"
+          className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+        </button>
+      </div>
+
+      {draft && (
+        <div className="space-y-3 p-3 bg-slate-900/60 border border-slate-700 rounded-lg">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Preset name"
+            className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-sm text-white"
+          />
+          <div className="flex rounded-md overflow-hidden border border-slate-700 w-fit text-xs">
+            {PROMPT_KINDS.map(k => (
+              <button
+                key={k.id}
+                onClick={() => setKind(k.id)}
+                className={`px-2.5 py-1 transition-colors ${kind === k.id ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+              >
+                {k.label}
+              </button>
+            ))}
+          </div>
+          <textarea
+            ref={textareaRef}
+            value={draft[kind]}
+            onChange={(e) => setDraft({ ...draft, [kind]: e.target.value })}
+            spellCheck={false}
+            className="w-full h-48 px-3 py-2 bg-slate-900 border border-slate-600 rounded-md font-mono text-xs text-slate-200 resize-y"
+          />
+          <div className="flex flex-wrap gap-1">
+            {PROMPT_VARIABLES.map(v => (
+              <button
+                key={v.name}
+                onClick={() => insertVariable(v.name)}
+                title={v.description}
+                className="px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 font-mono text-[11px] text-indigo-300 hover:border-indigo-500"
+              >
+                {`{${v.name}}`}
+              </button>
+            ))}
+          </div>
+          <details className="text-xs text-slate-400">
+            <summary className="cursor-pointer">Preview with the current settings</summary>
+            <pre className="mt-2 p-2 bg-black/40 rounded whitespace-pre-wrap text-slate-300 max-h-48 overflow-y-auto">
+              {renderPreview(draft, kind)}
+            </pre>
+          </details>
+          <div className="flex justify-end gap-2">
+            <Button onClick={() => setDraft(null)} variant="secondary" className="text-xs py-1.5">Cancel</Button>
+            <Button onClick={handleSave} variant="primary" className="text-xs py-1.5">Save preset</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
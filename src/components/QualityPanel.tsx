@@ -0,0 +1,109 @@
+import React from 'react';
+import { ShieldCheck, Flag, Loader2, Wand2 } from 'lucide-react';
+import { FrameQuality, QualityOptions } from '../types';
+import { MAX_QUALITY_RETRIES, QUALITY_FLAG_LABELS, describeQuality } from '../services/qualityService';
+import { Button } from './Button';
+
+interface QualityPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  /** Results for the current sequence; null while they are being computed. */
+  quality: (FrameQuality | null)[] | null;
+  labels: string[];
+  isScoring: boolean;
+  /** Why the last check failed, if it did. */
+  error?: string | null;
+  options: QualityOptions;
+  onOptionsChange: (options: QualityOptions) => void;
+  /** Automatic regenerations made for the current sequence. */
+  autoRetries: number;
+  onRegenerate: (indices: number[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Summarizes the local quality check: which frames were flagged and why.
+ * Flagged frames can be regenerated at once, or automatically once the
+ * sequence settles, up to a per-frame budget.
+ */
+export const QualityPanel: React.FC<QualityPanelProps> = ({
+  enabled, onEnabledChange, quality, labels, isScoring, error, options, onOptionsChange, autoRetries, onRegenerate, disabled,
+}) => {
+  const scored = quality?.filter(Boolean).length ?? 0;
+  const flagged = quality?.flatMap((result, i) => (result?.flags.length ? [i] : [])) ?? [];
+
+  return (
+    <div className="w-full bg-slate-900/60 border border-slate-700 rounded-xl p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-300">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            className="accent-indigo-500"
+          />
+          <ShieldCheck className="w-4 h-4" /> Quality check
+          {isScoring && <Loader2 className="w-3.5 h-3.5 animate-spin text-indigo-400" />}
+        </label>
+        {enabled && quality && (
+          <span className={`text-xs ${flagged.length > 0 ? 'text-amber-300' : 'text-slate-400'}`}>
+            {flagged.length > 0 ? `${flagged.length} of ${scored} frames flagged` : `${scored} frames checked, none flagged`}
+          </span>
+        )}
+      </div>
+
+      {enabled && (
+        <>
+          {error && <p className="text-xs text-red-300">{error}</p>}
+          {flagged.length > 0 && (
+            <ul className="space-y-1 text-xs">
+              {flagged.map(i => (
+                <li key={i} className="flex items-center gap-2 text-slate-300" title={describeQuality(quality![i]!)}>
+                  <Flag className="w-3 h-3 text-amber-400 shrink-0" />
+                  <span className="font-mono text-slate-400 w-20 shrink-0">{labels[i]}</span>
+                  <span className="truncate">{quality![i]!.flags.map(flag => QUALITY_FLAG_LABELS[flag]).join(', ')}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="text-xs text-slate-400 flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options.autoRegenerate}
+                onChange={(e) => onOptionsChange({ ...options, autoRegenerate: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              Regenerate flagged frames automatically
+            </label>
+            <label className="text-xs text-slate-400 flex items-center gap-2" title="Automatic regenerations allowed per frame">
+              Budget
+              <input
+                type="number"
+                min={1}
+                max={MAX_QUALITY_RETRIES}
+                value={options.retryBudget}
+                onChange={(e) => onOptionsChange({
+                  ...options,
+                  retryBudget: Math.min(MAX_QUALITY_RETRIES, Math.max(1, Math.round(Number(e.target.value)) || 1)),
+                })}
+                className="w-14 px-2 py-1 bg-slate-900 border border-slate-600 rounded-md text-white"
+              />
+              per frame
+            </label>
+            {autoRetries > 0 && <span className="text-xs text-slate-500">{autoRetries} automatic regeneration{autoRetries === 1 ? '' : 's'} so far</span>}
+            <Button
+              onClick={() => onRegenerate(flagged)}
+              disabled={disabled || flagged.length === 0}
+              variant="secondary"
+              className="ml-auto flex items-center gap-2 text-xs py-1.5"
+            >
+              <Wand2 className="w-3.5 h-3.5" /> Regenerate flagged
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
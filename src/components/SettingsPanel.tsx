@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Settings, X, Eye, EyeOff, Loader2, CheckCircle2, AlertCircle, Trash2 } from 'lucide-react';
+import { AppSettings } from '../types';
+import { DEFAULT_SETTINGS, GENERATION_MODELS, UPSCALE_MODELS, hasBuiltInApiKey } from '../services/settingsStore';
+import { verifyGeminiAccess } from '../services/geminiService';
+import { errorMessage } from '../services/generationQueue';
+import { Button } from './Button';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+type Check = { status: 'checking' } | { status: 'valid' } | { status: 'invalid'; error: string };
+
+/**
+ * Edits the locally stored settings: the Gemini API key, the models used for
+ * generation and upscaling, and the temperature new sessions start with.
+ * Nothing changes until the settings are saved.
+ */
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [showKey, setShowKey] = useState(false);
+  const [check, setCheck] = useState<Check | null>(null);
+  const checkController = useRef<AbortController | null>(null);
+
+  useEffect(() => () => checkController.current?.abort(), []);
+
+  const update = (changes: Partial<AppSettings>) => {
+    // A result only holds for the key and model it was checked with
+    if ('apiKey' in changes || 'generationModel' in changes) {
+      checkController.current?.abort();
+      setCheck(null);
+    }
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleValidate = async () => {
+    checkController.current?.abort();
+    const controller = new AbortController();
+    checkController.current = controller;
+    setCheck({ status: 'checking' });
+    try {
+      await verifyGeminiAccess(draft.apiKey.trim(), draft.generationModel.trim(), controller.signal);
+      if (!controller.signal.aborted) setCheck({ status: 'valid' });
+    } catch (error) {
+      if (!controller.signal.aborted) setCheck({ status: 'invalid', error: errorMessage(error) || "The key was rejected." });
+    }
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      apiKey: draft.apiKey.trim(),
+      generationModel: draft.generationModel.trim() || DEFAULT_SETTINGS.generationModel,
+      upscaleModel: draft.upscaleModel.trim() || DEFAULT_SETTINGS.upscaleModel,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm overflow-y-auto p-6">
+      <div className="max-w-lg mx-auto bg-slate-900 border border-slate-700 rounded-2xl p-6 space-y-6">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Settings className="w-5 h-5" /> Settings
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-slate-400">Gemini API key</label>
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <input
+                type={showKey ? 'text' : 'password'}
+                value={draft.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                placeholder={hasBuiltInApiKey ? 'Using the key built into this app' : 'Paste a key from Google AI Studio'}
+                autoComplete="off"
+                spellCheck={false}
+                className="w-full pl-3 pr-9 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white placeholder-slate-500 font-mono text-sm"
+              />
+              <button
+                onClick={() => setShowKey(!showKey)}
+                title={showKey ? 'Hide key' : 'Show key'}
+                className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-400 hover:text-white"
+              >
+                {showKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              </button>
+            </div>
+            <Button
+              onClick={handleValidate}
+              disabled={(!draft.apiKey.trim() && !hasBuiltInApiKey) || check?.status === 'checking'}
+              variant="secondary"
+              className="text-xs"
+            >
+              Validate
+            </Button>
+          </div>
+          {check && (
+            <p className={`text-xs flex items-center gap-1.5 ${check.status === 'invalid' ? 'text-red-300' : check.status === 'valid' ? 'text-emerald-300' : 'text-slate-400'}`}>
+              {check.status === 'checking' && <><Loader2 className="w-3.5 h-3.5 animate-spin" /> Checking the key…</>}
+              {check.status === 'valid' && <><CheckCircle2 className="w-3.5 h-3.5" /> The key works with {draft.generationModel}.</>}
+              {check.status === 'invalid' && <><AlertCircle className="w-3.5 h-3.5 shrink-0" /> {check.error}</>}
+            </p>
+          )}
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-slate-500">Stored only in this browser and sent only to Google.</p>
+            {settings.apiKey && (
+              <button
+                onClick={() => {
+                  onSave({ ...settings, apiKey: '' });
+                  update({ apiKey: '' });
+                }}
+                className="text-xs text-red-300 hover:text-red-200 flex items-center gap-1 shrink-0"
+              >
+                <Trash2 className="w-3.5 h-3.5" /> Forget key
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="text-xs text-slate-400 space-y-1">
+            <span className="block">Generation model</span>
+            <input
+              list="generation-models"
+              value={draft.generationModel}
+              onChange={(e) => update({ generationModel: e.target.value })}
+              className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white font-mono"
+            />
+            <datalist id="generation-models">
+              {GENERATION_MODELS.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+            </datalist>
+          </label>
+          <label className="text-xs text-slate-400 space-y-1">
+            <span className="block">Upscale model</span>
+            <input
+              list="upscale-models"
+              value={draft.upscaleModel}
+              onChange={(e) => update({ upscaleModel: e.target.value })}
+              className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white font-mono"
+            />
+            <datalist id="upscale-models">
+              {UPSCALE_MODELS.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+            </datalist>
+          </label>
+          <label className="text-xs text-slate-400 space-y-1 sm:col-span-2">
+            <span className="block">Default temperature {draft.defaultTemperature.toFixed(2)}</span>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.05}
+              value={draft.defaultTemperature}
+              onChange={(e) => update({ defaultTemperature: Number(e.target.value) })}
+              className="w-full accent-indigo-500"
+            />
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button onClick={onClose} variant="secondary">Cancel</Button>
+          <Button onClick={handleSave} variant="primary">Save</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,244 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Brush, Eraser, SquareDashed, ScanEye, Trash2, X } from 'lucide-react';
+import { loadImage } from '../utils/imageUtils';
+import { Button } from './Button';
+
+type MaskTool = 'brush' | 'erase' | 'box';
+
+interface SubjectMaskEditorProps {
+  /** The image the mask is drawn on. */
+  image: string;
+  /** Existing white-on-black mask to continue editing. */
+  mask?: string | null;
+  /** Receives the mask as a white-on-black PNG at the image's size, or null when nothing is marked. */
+  onSave: (mask: string | null) => void;
+  onCancel: () => void;
+}
+
+const TOOLS: { id: MaskTool; label: string; icon: React.ElementType }[] = [
+  { id: 'brush', label: 'Paint', icon: Brush },
+  { id: 'erase', label: 'Erase', icon: Eraser },
+  { id: 'box', label: 'Box', icon: SquareDashed },
+];
+
+// Painted areas are kept as opaque red on a transparent canvas and shown semi-transparent over the image
+const PAINT = 'rgb(239, 68, 68)';
+
+/**
+ * Marks the subject to move by painting over it or dragging a box around
+ * it. The mask is sent to the provider and used to composite the subject
+ * over the untouched background.
+ */
+export const SubjectMaskEditor: React.FC<SubjectMaskEditorProps> = ({ image, mask, onSave, onCancel }) => {
+  const [tool, setTool] = useState<MaskTool>('brush');
+  // Brush diameter as a fraction of the image's longest side
+  const [brushSize, setBrushSize] = useState(0.05);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  // Box being dragged, in source pixels
+  const [box, setBox] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  const imageCanvasRef = useRef<HTMLCanvasElement>(null);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Draw the image and turn an existing white-on-black mask into the red overlay
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadImage(image), mask ? loadImage(mask) : Promise.resolve(null)])
+      .then(([img, existing]) => {
+        const imageCanvas = imageCanvasRef.current;
+        const maskCanvas = maskCanvasRef.current;
+        const imageCtx = imageCanvas?.getContext('2d');
+        const maskCtx = maskCanvas?.getContext('2d', { willReadFrequently: true });
+        if (cancelled || !imageCanvas || !maskCanvas || !imageCtx || !maskCtx) return;
+        const { width, height } = img;
+        imageCanvas.width = maskCanvas.width = width;
+        imageCanvas.height = maskCanvas.height = height;
+        imageCtx.drawImage(img, 0, 0);
+        if (existing) {
+          maskCtx.drawImage(existing, 0, 0, width, height);
+          const pixels = maskCtx.getImageData(0, 0, width, height);
+          for (let i = 0; i < pixels.data.length; i += 4) {
+            pixels.data[i + 3] = pixels.data[i];
+            pixels.data[i] = 239;
+            pixels.data[i + 1] = 68;
+            pixels.data[i + 2] = 68;
+          }
+          maskCtx.putImageData(pixels, 0, 0);
+        }
+        setSize({ width, height });
+      })
+      .catch(e => console.error("Failed to load image for masking", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [image, mask]);
+
+  const toSource = (e: React.PointerEvent) => {
+    const canvas = maskCanvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const stroke = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const canvas = maskCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = PAINT;
+    ctx.lineWidth = brushSize * Math.max(canvas.width, canvas.height);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.globalCompositeOperation = 'source-over';
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toSource(e);
+    if (tool === 'box') {
+      setBox({ x0: point.x, y0: point.y, x1: point.x, y1: point.y });
+      return;
+    }
+    lastPointRef.current = point;
+    stroke(point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toSource(e);
+    if (box) {
+      setBox({ ...box, x1: point.x, y1: point.y });
+    } else if (lastPointRef.current) {
+      stroke(lastPointRef.current, point);
+      lastPointRef.current = point;
+    }
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+    if (!box) return;
+    const ctx = maskCanvasRef.current?.getContext('2d');
+    if (ctx) {
+      ctx.fillStyle = PAINT;
+      ctx.fillRect(Math.min(box.x0, box.x1), Math.min(box.y0, box.y1), Math.abs(box.x1 - box.x0), Math.abs(box.y1 - box.y0));
+    }
+    setBox(null);
+  };
+
+  const handleClear = () => {
+    const canvas = maskCanvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const handleSave = () => {
+    const canvas = maskCanvasRef.current;
+    const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+    if (!canvas || !ctx) return;
+    const painted = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+    let marked = false;
+    for (let i = 3; i < painted.length && !marked; i += 4) marked = painted[i] > 0;
+    if (!marked) return onSave(null);
+
+    // White where painted, black elsewhere
+    const out = document.createElement('canvas');
+    out.width = canvas.width;
+    out.height = canvas.height;
+    const outCtx = out.getContext('2d');
+    if (!outCtx) return;
+    outCtx.drawImage(canvas, 0, 0);
+    outCtx.globalCompositeOperation = 'source-in';
+    outCtx.fillStyle = '#fff';
+    outCtx.fillRect(0, 0, out.width, out.height);
+    outCtx.globalCompositeOperation = 'destination-over';
+    outCtx.fillStyle = '#000';
+    outCtx.fillRect(0, 0, out.width, out.height);
+    onSave(out.toDataURL('image/png'));
+  };
+
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm overflow-y-auto p-6">
+      <div className="max-w-4xl mx-auto bg-slate-900 border border-slate-700 rounded-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <ScanEye className="w-5 h-5" /> Select subject
+          </h3>
+          <button onClick={onCancel} className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-400">
+          <div className="flex rounded-md overflow-hidden border border-slate-700">
+            {TOOLS.map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => setTool(id)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 transition-colors ${tool === id ? 'bg-indigo-600 text-white' : 'bg-slate-800 hover:bg-slate-700'}`}
+              >
+                <Icon className="w-3.5 h-3.5" /> {label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2">
+            Brush
+            <input
+              type="range"
+              min={0.01}
+              max={0.2}
+              step={0.005}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              disabled={tool === 'box'}
+              className="w-28 accent-indigo-500"
+            />
+          </label>
+          <button onClick={handleClear} className="flex items-center gap-1.5 px-2 py-1.5 rounded-md hover:bg-slate-800 hover:text-white">
+            <Trash2 className="w-3.5 h-3.5" /> Clear
+          </button>
+        </div>
+
+        <div className="flex justify-center bg-black/50 rounded-xl border border-slate-700 p-2">
+          <div className="relative select-none touch-none">
+            <canvas ref={imageCanvasRef} className="block max-w-full max-h-[60vh]" />
+            <canvas
+              ref={maskCanvasRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair"
+            />
+            {box && size && (
+              <div
+                className="absolute border-2 border-dashed border-white pointer-events-none"
+                style={{
+                  left: percent(Math.min(box.x0, box.x1), size.width),
+                  top: percent(Math.min(box.y0, box.y1), size.height),
+                  width: percent(Math.abs(box.x1 - box.x0), size.width),
+                  height: percent(Math.abs(box.y1 - box.y0), size.height),
+                }}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs text-slate-400">
+            Mark the subject that should move. Everything else is treated as background and kept as it is.
+          </p>
+          <div className="flex gap-2">
+            <Button onClick={onCancel} variant="secondary">Cancel</Button>
+            <Button onClick={handleSave} variant="primary">Save mask</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { EasingType, MotionTiming } from '../types';
+import { EASING_OPTIONS, DEFAULT_BEZIER, applyEasing, frameProgress } from '../utils/easing';
+
+interface TimingSettingsProps {
+  timing: MotionTiming;
+  onChange: (timing: MotionTiming) => void;
+  disabled?: boolean;
+}
+
+const CURVE_SAMPLES = 48;
+
+export const TimingSettings: React.FC<TimingSettingsProps> = ({ timing, onChange, disabled }) => {
+  const { frameCount, fps, easing } = timing;
+  const bezier = easing.bezier ?? DEFAULT_BEZIER;
+
+  const clampInt = (value: string, min: number, max: number) =>
+    Math.min(max, Math.max(min, Math.round(Number(value) || min)));
+
+  const handleBezierChange = (index: number, value: string) => {
+    const next = [...bezier] as [number, number, number, number];
+    const parsed = Number(value);
+    // x control points must stay within [0, 1] for the curve to be a function of time
+    next[index] = index % 2 === 0 ? Math.min(1, Math.max(0, parsed)) : parsed;
+    onChange({ ...timing, easing: { type: 'cubic-bezier', bezier: next } });
+  };
+
+  // Curve preview in a 100x100 box, with a dot for each generated frame
+  const curvePoints = Array.from({ length: CURVE_SAMPLES + 1 }, (_, i) => {
+    const t = i / CURVE_SAMPLES;
+    return `${t * 100},${100 - applyEasing(t, easing) * 100}`;
+  }).join(' ');
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-slate-400 flex items-center gap-2">
+        <Timer className="w-4 h-4" /> Timing
+      </label>
+      <div className="grid grid-cols-3 gap-3">
+        <label className="text-xs text-slate-400 space-y-1">
+          <span className="block">Frames</span>
+          <input
+            type="number"
+            min={2}
+            max={30}
+            value={frameCount}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...timing, frameCount: clampInt(e.target.value, 2, 30) })}
+            className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+          />
+        </label>
+        <label className="text-xs text-slate-400 space-y-1">
+          <span className="block">Playback FPS</span>
+          <input
+            type="number"
+            min={1}
+            max={30}
+            value={fps}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...timing, fps: clampInt(e.target.value, 1, 30) })}
+            className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+          />
+        </label>
+        <label className="text-xs text-slate-400 space-y-1">
+          <span className="block">Easing</span>
+          <select
+            value={easing.type}
+            disabled={disabled}
+            onChange={(e) => {
+              const type = e.target.value as EasingType;
+              onChange({ ...timing, easing: type === 'cubic-bezier' ? { type, bezier } : { type } });
+            }}
+            className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+          >
+            {EASING_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {easing.type === 'cubic-bezier' && (
+        <div className="grid grid-cols-4 gap-2">
+          {['x1', 'y1', 'x2', 'y2'].map((name, i) => (
+            <label key={name} className="text-xs text-slate-400 space-y-1">
+              <span className="block">{name}</span>
+              <input
+                type="number"
+                step={0.05}
+                value={bezier[i]}
+                disabled={disabled}
+                onChange={(e) => handleBezierChange(i, e.target.value)}
+                className="w-full px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <svg viewBox="-4 -24 108 148" className="w-full h-24 bg-slate-900 rounded-lg border border-slate-700">
+        <polyline points={curvePoints} fill="none" stroke="#818cf8" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {Array.from({ length: frameCount }, (_, i) => {
+          const t = (i + 1) / frameCount;
+          return (
+            <circle
+              key={i}
+              cx={t * 100}
+              cy={100 - frameProgress(i + 1, frameCount, easing) * 100}
+              r={2.5}
+              fill="#c084fc"
+            />
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+import React from 'react';
+import { Sparkles, Loader2, AlertTriangle, Check, XCircle, Cpu } from 'lucide-react';
+import { FrameJobState, GeneratedFrame, LocalUpscaleAlgorithm, LocalUpscaleOptions, UpscaleSize, UpscaleVariant } from '../types';
+import { Button } from './Button';
+
+/** The provider's model, or the resampler that runs on this device. */
+export type UpscaleEngine = 'provider' | 'local';
+
+const LOCAL_ALGORITHMS: { id: LocalUpscaleAlgorithm; label: string }[] = [
+  { id: 'lanczos3', label: 'Lanczos-3' },
+  { id: 'bicubic', label: 'Bicubic' },
+];
+
+interface UpscalePanelProps {
+  frames: GeneratedFrame[];
+  labels: string[];
+  selected: boolean[];
+  onSelectionChange: (selected: boolean[]) => void;
+  engine: UpscaleEngine;
+  onEngineChange: (engine: UpscaleEngine) => void;
+  providerName: string;
+  /** False when the current provider can't upscale; only the local engine is offered then. */
+  providerAvailable: boolean;
+  /** The version being produced and shown, following the engine and its settings. */
+  variant: UpscaleVariant;
+  size: UpscaleSize;
+  sizes: UpscaleSize[];
+  onSizeChange: (size: UpscaleSize) => void;
+  localOptions: LocalUpscaleOptions;
+  onLocalOptionsChange: (options: LocalUpscaleOptions) => void;
+  /** Estimated USD per request at the chosen size, when the provider publishes one. */
+  costPerImage?: number;
+  /** Upscale job state by frame id. */
+  jobStates: Record<number, FrameJobState>;
+  showUpscaled: boolean;
+  onShowUpscaledChange: (show: boolean) => void;
+  isUpscaling: boolean;
+  onStart: () => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Picks frames and a target for upscaling, with the provider or locally.
+ * Provider runs skip frames that already have a version at that size, so
+ * running again resumes an interrupted or partly failed batch.
+ */
+export const UpscalePanel: React.FC<UpscalePanelProps> = ({
+  frames, labels, selected, onSelectionChange, engine, onEngineChange, providerName, providerAvailable, variant,
+  size, sizes, onSizeChange, localOptions, onLocalOptionsChange, costPerImage, jobStates, showUpscaled, onShowUpscaledChange, isUpscaling, onStart, onCancel, disabled,
+}) => {
+  const missing = (frame: GeneratedFrame) => Boolean(frame.imageUrl && !frame.upscales?.[variant]);
+  // Local runs are cheap and settings may have changed, so they redo every selected frame
+  const pending = frames.filter((frame, i) => selected[i] && (engine === 'local' ? frame.imageUrl : missing(frame))).length;
+  const done = frames.filter((frame, i) => selected[i] && frame.upscales?.[variant]).length;
+
+  const selectWhere = (predicate: (frame: GeneratedFrame) => boolean) =>
+    onSelectionChange(frames.map(frame => Boolean(frame.imageUrl) && predicate(frame)));
+
+  return (
+    <div className="w-full bg-slate-900/60 border border-slate-700 rounded-xl p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-300">
+          <Sparkles className="w-4 h-4" /> Upscale
+        </div>
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <span>Select</span>
+          <button onClick={() => selectWhere(() => true)} className="px-2 py-1 rounded border border-slate-700 hover:border-slate-500">All</button>
+          <button onClick={() => selectWhere(missing)} className="px-2 py-1 rounded border border-slate-700 hover:border-slate-500">Missing {variant}</button>
+          <button onClick={() => selectWhere(() => false)} className="px-2 py-1 rounded border border-slate-700 hover:border-slate-500">None</button>
+        </div>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {frames.map((frame, i) => {
+          const state = jobStates[frame.id];
+          const variants = Object.keys(frame.upscales ?? {});
+          return (
+            <label
+              key={frame.id}
+              className={`relative flex-shrink-0 w-16 aspect-square rounded-md overflow-hidden border-2 ${
+                frame.imageUrl ? 'cursor-pointer' : 'opacity-40'
+              } ${selected[i] ? 'border-indigo-500' : 'border-slate-700'}`}
+              title={labels[i]}
+            >
+              {frame.imageUrl && <img src={frame.imageUrl} alt={labels[i]} className="w-full h-full object-cover" />}
+              <input
+                type="checkbox"
+                checked={Boolean(selected[i])}
+                disabled={!frame.imageUrl || isUpscaling}
+                onChange={(e) => onSelectionChange(selected.map((value, j) => (j === i ? e.target.checked : value)))}
+                className="absolute top-1 left-1 accent-indigo-500"
+              />
+              <div className="absolute top-1 right-1">
+                {(state?.status === 'running' || state?.status === 'pending') && isUpscaling && <Loader2 className="w-3.5 h-3.5 animate-spin text-indigo-300" />}
+                {state?.status === 'failed' && !frame.upscales?.[variant] && (
+                  <span title={state.error}><AlertTriangle className="w-3.5 h-3.5 text-red-400" /></span>
+                )}
+                {frame.upscales?.[variant] && <Check className="w-3.5 h-3.5 text-emerald-400" />}
+              </div>
+              {variants.length > 0 && (
+                <div className="absolute bottom-0 inset-x-0 bg-black/60 text-[9px] text-center text-white">{variants.join(' ')}</div>
+              )}
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="flex rounded-md overflow-hidden border border-slate-700 w-fit text-xs">
+        <button
+          onClick={() => onEngineChange('provider')}
+          disabled={!providerAvailable || isUpscaling}
+          className={`flex items-center gap-1.5 px-3 py-1.5 disabled:opacity-50 ${engine === 'provider' ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+        >
+          <Sparkles className="w-3.5 h-3.5" /> {providerName}
+        </button>
+        <button
+          onClick={() => onEngineChange('local')}
+          disabled={isUpscaling}
+          className={`flex items-center gap-1.5 px-3 py-1.5 ${engine === 'local' ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+        >
+          <Cpu className="w-3.5 h-3.5" /> Local (offline)
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        {engine === 'provider' ? (
+          <label className="text-xs text-slate-400 space-y-1">
+            <span className="block">Target size</span>
+            <select
+              value={size}
+              onChange={(e) => onSizeChange(e.target.value as UpscaleSize)}
+              disabled={isUpscaling}
+              className="px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+            >
+              {sizes.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </label>
+        ) : (
+          <>
+            <label className="text-xs text-slate-400 space-y-1">
+              <span className="block">Algorithm</span>
+              <select
+                value={localOptions.algorithm}
+                onChange={(e) => onLocalOptionsChange({ ...localOptions, algorithm: e.target.value as LocalUpscaleAlgorithm })}
+                disabled={isUpscaling}
+                className="px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+              >
+                {LOCAL_ALGORITHMS.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-slate-400 space-y-1">
+              <span className="block">Scale</span>
+              <select
+                value={localOptions.factor}
+                onChange={(e) => onLocalOptionsChange({ ...localOptions, factor: Number(e.target.value) as LocalUpscaleOptions['factor'] })}
+                disabled={isUpscaling}
+                className="px-2 py-1.5 bg-slate-900 border border-slate-600 rounded-md text-white"
+              >
+                <option value={2}>2x</option>
+                <option value={4}>4x</option>
+              </select>
+            </label>
+            <label className="text-xs text-slate-400 space-y-1">
+              <span className="block">Sharpen {localOptions.sharpen.toFixed(1)}</span>
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.1}
+                value={localOptions.sharpen}
+                onChange={(e) => onLocalOptionsChange({ ...localOptions, sharpen: Number(e.target.value) })}
+                disabled={isUpscaling}
+                className="w-24 accent-indigo-500"
+              />
+            </label>
+          </>
+        )}
+        <div className="text-xs text-slate-400 flex-1 min-w-40 pb-1.5">
+          {engine === 'provider' ? (
+            <>
+              <p>
+                {pending} {pending === 1 ? 'request' : 'requests'}
+                {costPerImage !== undefined && ` · about $${(pending * costPerImage).toFixed(2)}`}
+                {done > 0 && ` · ${done} already at ${variant}`}
+              </p>
+              <p className="text-slate-500">Estimate; retried requests are billed again.</p>
+            </>
+          ) : (
+            <>
+              <p>{pending} {pending === 1 ? 'frame' : 'frames'}</p>
+              <p className="text-slate-500">Free, runs on this device. Re-running replaces the {variant} versions.</p>
+            </>
+          )}
+        </div>
+        {isUpscaling ? (
+          <Button onClick={onCancel} variant="secondary" className="flex items-center gap-2">
+            <XCircle className="w-4 h-4" /> Stop
+          </Button>
+        ) : (
+          <Button
+            onClick={onStart}
+            disabled={disabled || pending === 0}
+            variant="primary"
+            className="flex items-center gap-2 bg-purple-600 hover:bg-purple-700 focus:ring-purple-500"
+          >
+            <Sparkles className="w-4 h-4" />
+            {engine === 'provider' && done > 0 && pending > 0 ? `Resume (${pending} left)` : `Upscale ${pending} ${pending === 1 ? 'frame' : 'frames'}`}
+          </Button>
+        )}
+      </div>
+
+      <label className="text-xs text-slate-300 flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={showUpscaled}
+          onChange={(e) => onShowUpscaledChange(e.target.checked)}
+          className="accent-indigo-500"
+        />
+        Preview and export the {variant} versions (frames without one use the original)
+      </label>
+    </div>
+  );
+};
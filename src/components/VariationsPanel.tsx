@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { Shuffle, X, Play, Pause, Check, RotateCcw, XCircle } from 'lucide-react';
+import { GeneratedFrame, SamplingParams, VariationTake } from '../types';
+import { assembleTakes, dominantTake } from '../services/variationService';
+import { AnimationPlayer } from './AnimationPlayer';
+import { Button } from './Button';
+
+interface VariationsPanelProps {
+  takes: VariationTake[];
+  fps: number;
+  /** Caption per frame position, e.g. ORIGINAL or FRAME 3. */
+  labels: string[];
+  isGenerating: boolean;
+  onCancel: () => void;
+  /** Puts the assembled frames in the editor; `take` is the one most frames come from. */
+  onApply: (frames: GeneratedFrame[], take: number) => void;
+  /** Copies a take's sampling into the generation settings, to reproduce it. */
+  onReuseSampling: (sampling: SamplingParams) => void;
+  onClose: () => void;
+}
+
+const isComplete = (frames: GeneratedFrame[]) => frames.every(frame => frame.imageUrl);
+
+/**
+ * Candidate takes side by side, playing in step so they can be judged frame
+ * for frame. A whole take can be kept, or frames picked across takes.
+ */
+export const VariationsPanel: React.FC<VariationsPanelProps> = ({
+  takes, fps, labels, isGenerating, onCancel, onApply, onReuseSampling, onClose,
+}) => {
+  const frameCount = takes[0]?.frames.length ?? 0;
+  // Index of the take each frame position is taken from
+  const [picks, setPicks] = useState<number[]>(() => Array(frameCount).fill(0));
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+
+  // One clock for every player keeps the takes in step
+  useEffect(() => {
+    if (!isPlaying || frameCount < 2) return;
+    const timer = window.setInterval(() => setIndex(i => (i + 1) % frameCount), 1000 / fps);
+    return () => clearInterval(timer);
+  }, [isPlaying, fps, frameCount]);
+
+  const picked = assembleTakes(takes, picks);
+  // Anchors are the same in every take, so only generated positions can be picked
+  const pickable = takes[0]?.frames.map((frame, i) => (frame.anchor ? -1 : i)).filter(i => i >= 0) ?? [];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm overflow-y-auto p-6">
+      <div className="max-w-6xl mx-auto bg-slate-900 border border-slate-700 rounded-2xl p-6 space-y-6">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Shuffle className="w-5 h-5" /> Variations
+          </h3>
+          <div className="flex items-center gap-2">
+            {isGenerating && (
+              <Button onClick={onCancel} variant="danger" className="flex items-center gap-2 text-xs py-1.5">
+                <XCircle className="w-4 h-4" /> Cancel
+              </Button>
+            )}
+            <button onClick={onClose} title="Close; the takes stay available" className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-800">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 text-xs text-slate-400">
+          <button
+            onClick={() => setIsPlaying(!isPlaying)}
+            title={isPlaying ? 'Pause' : 'Play'}
+            className="p-2 rounded-full bg-indigo-600 text-white hover:bg-indigo-700"
+          >
+            {isPlaying ? <Pause className="w-4 h-4 fill-current" /> : <Play className="w-4 h-4 fill-current" />}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={Math.max(0, frameCount - 1)}
+            value={index}
+            onChange={(e) => {
+              setIsPlaying(false);
+              setIndex(Number(e.target.value));
+            }}
+            className="flex-1 accent-indigo-500"
+          />
+          <span className="font-mono w-24 text-right">{labels[index]}</span>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {takes.map((take, t) => {
+            const ready = take.frames.filter(f => f.imageUrl && !f.anchor).length;
+            const total = take.frames.filter(f => !f.anchor).length;
+            return (
+              <div key={t} className="space-y-2 p-2 rounded-xl border border-slate-700 bg-slate-800/50">
+                <AnimationPlayer
+                  frames={take.frames.map(f => f.imageUrl)}
+                  frameStates={take.frameStates}
+                  compact
+                  syncIndex={index}
+                />
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-slate-200 font-medium">Take {t + 1}</span>
+                  <span className="text-slate-500">{ready}/{total} frames</span>
+                </div>
+                <p className="text-[11px] font-mono text-slate-400">
+                  temperature {take.sampling.temperature} · seed {take.sampling.seed}
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onApply(assembleTakes(takes, Array(frameCount).fill(t)), t)}
+                    disabled={!isComplete(take.frames)}
+                    className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded-md bg-indigo-600 text-white text-xs hover:bg-indigo-700 disabled:opacity-40"
+                  >
+                    <Check className="w-3.5 h-3.5" /> Keep take
+                  </button>
+                  <button
+                    onClick={() => onReuseSampling(take.sampling)}
+                    title="Use this take's temperature and seed for the next generation"
+                    className="flex items-center gap-1 px-2 py-1 rounded-md border border-slate-600 text-slate-300 text-xs hover:border-slate-400"
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" /> Reuse
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-sm text-slate-300">Pick frames across takes</p>
+          <div className="overflow-x-auto pb-2">
+            <table className="text-xs">
+              <thead>
+                <tr>
+                  <th />
+                  {pickable.map(i => (
+                    <th key={i} className={`px-1 pb-1 font-normal ${i === index ? 'text-indigo-300' : 'text-slate-500'}`}>{labels[i]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {takes.map((take, t) => (
+                  <tr key={t}>
+                    <td className="pr-2 text-slate-400 whitespace-nowrap">Take {t + 1}</td>
+                    {pickable.map(i => {
+                      const frame = take.frames[i];
+                      const selected = picks[i] === t;
+                      return (
+                        <td key={i} className="p-1">
+                          <button
+                            onClick={() => {
+                              setPicks(prev => prev.map((pick, p) => (p === i ? t : pick)));
+                              setIsPlaying(false);
+                              setIndex(i);
+                            }}
+                            disabled={!frame.imageUrl}
+                            className={`w-16 h-16 rounded-md overflow-hidden border-2 bg-black/50 ${
+                              selected ? 'border-indigo-500 ring-2 ring-indigo-500/30' : 'border-slate-700 opacity-60 hover:opacity-100'
+                            }`}
+                          >
+                            {frame.imageUrl && <img src={frame.imageUrl} alt={`Take ${t + 1}, ${labels[i]}`} className="w-full h-full object-cover" />}
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="w-40">
+              <AnimationPlayer frames={picked.map(f => f.imageUrl)} compact syncIndex={index} />
+            </div>
+            <Button
+              onClick={() => onApply(picked, dominantTake(picks.filter((_, i) => pickable.includes(i)), takes.length))}
+              disabled={!isComplete(picked)}
+              className="flex items-center gap-2"
+            >
+              <Check className="w-4 h-4" /> Use picked frames
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
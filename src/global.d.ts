@@ -0,0 +1,9 @@
+/** Key picker injected by AI Studio when the app runs there; absent elsewhere. */
+interface AiStudio {
+  hasSelectedApiKey(): Promise<boolean>;
+  openSelectKey(): Promise<void>;
+}
+
+interface Window {
+  aistudio?: AiStudio;
+}
@@ -0,0 +1,116 @@
+import { BatchItem, GeneratedFrame } from '../types';
+import { GenerationRun, createRunFrames, fromRunSettings, generateMissingFrames, initialFrameStates, toRunSettings } from './generationRun';
+import { JobCancelledError, JobQueue, errorMessage } from './generationQueue';
+import { getProvider } from './providers';
+import { createProjectId, saveProject } from './projectStore';
+import { MOTION_PRESETS, STILL_MOTION, applyPreset } from '../utils/motion';
+
+export const createBatchItem = (name: string, image: string): BatchItem => ({
+  id: crypto.randomUUID(),
+  name,
+  image,
+  overrides: {},
+  status: 'queued',
+  frames: [],
+  frameStates: [],
+});
+
+/** The shared run with an item's image and overrides applied. */
+export const resolveBatchRun = (shared: GenerationRun, item: BatchItem): GenerationRun => {
+  const { description, motionPreset, frameCount } = item.overrides;
+  const preset = MOTION_PRESETS.find(p => p.id === motionPreset);
+  return {
+    ...shared,
+    // Masks and end keyframes belong to one image, so batches never carry them
+    image: item.image,
+    endImage: undefined,
+    subjectMask: undefined,
+    description: description?.trim() || shared.description,
+    motion: preset ? applyPreset(STILL_MOTION, preset, false) : shared.motion,
+    frameCount: frameCount ?? shared.frameCount,
+  };
+};
+
+/** Frames generated so far against frames to generate, not counting the original. */
+export const batchItemProgress = (item: BatchItem, sharedFrameCount: number) => ({
+  completed: item.frames.filter(f => f.imageUrl && !f.anchor).length,
+  total: item.settings?.timing.frameCount ?? item.overrides.frameCount ?? sharedFrameCount,
+});
+
+/**
+ * Generates an item's missing frames through the shared queue and saves
+ * the result to history. Items that already ran keep their settings and
+ * finished frames, so running again only fills the gaps. Reports every
+ * change as a new item and never rejects.
+ */
+const runBatchItem = async (
+  shared: GenerationRun,
+  initial: BatchItem,
+  queue: JobQueue,
+  onChange: (item: BatchItem) => void,
+) => {
+  const run = initial.settings
+    ? fromRunSettings(initial.settings, getProvider(initial.settings.providerId), { image: initial.image })
+    : resolveBatchRun(shared, initial);
+  const frames: GeneratedFrame[] = initial.frames.length > 0 ? [...initial.frames] : createRunFrames(run);
+  const frameStates = initialFrameStates(frames);
+  let item: BatchItem = { ...initial, status: 'queued', error: undefined, settings: toRunSettings(run), frames, frameStates };
+  const update = (next: Partial<BatchItem>) => {
+    item = { ...item, ...next };
+    onChange(item);
+  };
+  update({});
+
+  const errors = await generateMissingFrames(run, [...frames], queue, {
+    onFrame: (index, result) => {
+      frames[index] = { ...frames[index], ...result };
+      update({ frames: [...frames] });
+    },
+    onState: (index, state) => {
+      frameStates[index] = state;
+      update({ frameStates: [...frameStates], status: item.status === 'queued' && state.status === 'running' ? 'running' : item.status });
+    },
+  });
+
+  const missing = frames.filter(f => !f.imageUrl).length;
+  if (errors.some(e => e instanceof JobCancelledError)) {
+    update({ status: 'cancelled', error: "Cancelled. Finished frames were kept." });
+  } else if (missing > 0) {
+    console.error(`Batch item ${item.name} failed`, errors);
+    update({ status: 'failed', error: `${missing} of ${run.frameCount} frames failed: ${errorMessage(errors[0])}` });
+  } else {
+    update({ status: 'done' });
+  }
+
+  // Saved whatever the outcome, so nothing that was paid for is lost
+  try {
+    const now = Date.now();
+    const projectId = item.projectId ?? createProjectId();
+    await saveProject({
+      id: projectId,
+      name: item.name,
+      createdAt: now,
+      updatedAt: now,
+      settings: item.settings!,
+      sourceImage: item.image,
+      frames,
+    });
+    update({ projectId });
+  } catch (error) {
+    console.error(`Failed to save batch item ${item.name}`, error);
+  }
+};
+
+/**
+ * Runs every item that isn't done. All items share the one job queue, so
+ * its concurrency and backoff pace the whole batch; jobs start in the
+ * order items were added.
+ */
+export const runBatch = async (
+  items: BatchItem[],
+  shared: GenerationRun,
+  queue: JobQueue,
+  onChange: (item: BatchItem) => void,
+): Promise<void> => {
+  await Promise.all(items.filter(item => item.status !== 'done').map(item => runBatchItem(shared, item, queue, onChange)));
+};
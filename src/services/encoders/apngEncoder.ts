@@ -0,0 +1,165 @@
+import { PixelFrame } from '../../types';
+
+export interface ApngEncodeOptions {
+  fps: number;
+  /** Per-frame display time in milliseconds. Overrides fps when given. */
+  durations?: number[];
+  /** Total number of plays. 0 loops forever. */
+  loopCount?: number;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array, crc: number = 0xffffffff): number => {
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc;
+};
+
+const u32 = (v: number) => [(v >>> 24) & 0xff, (v >>> 16) & 0xff, (v >>> 8) & 0xff, v & 0xff];
+const u16 = (v: number) => [(v >>> 8) & 0xff, v & 0xff];
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  const crc = crc32(out.subarray(4, 8 + data.length)) ^ 0xffffffff;
+  view.setUint32(8 + data.length, crc >>> 0);
+  return out;
+};
+
+/**
+ * zlib-wrapped deflate via the platform CompressionStream, so no
+ * compression library needs to ship with the app.
+ */
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+/**
+ * Applies PNG scanline filters to RGBA data, picking the filter with the
+ * smallest sum of absolute differences per row (the libpng heuristic).
+ */
+export const filterScanlines = (frame: PixelFrame): Uint8Array => {
+  const { width, height, data } = frame;
+  const stride = width * 4;
+  const out = new Uint8Array(height * (stride + 1));
+  const candidate = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const prev = row - stride;
+    let bestFilter = 0;
+    let bestScore = Infinity;
+    let best = new Uint8Array(stride);
+
+    for (let filter = 0; filter < 5; filter++) {
+      let score = 0;
+      for (let x = 0; x < stride; x++) {
+        const raw = data[row + x];
+        const left = x >= 4 ? data[row + x - 4] : 0;
+        const up = y > 0 ? data[prev + x] : 0;
+        const upLeft = y > 0 && x >= 4 ? data[prev + x - 4] : 0;
+        let value = raw;
+        if (filter === 1) value = raw - left;
+        else if (filter === 2) value = raw - up;
+        else if (filter === 3) value = raw - ((left + up) >> 1);
+        else if (filter === 4) value = raw - paeth(left, up, upLeft);
+        candidate[x] = value & 0xff;
+        score += candidate[x] < 128 ? candidate[x] : 256 - candidate[x];
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        best = candidate.slice();
+      }
+    }
+
+    const offset = y * (stride + 1);
+    out[offset] = bestFilter;
+    out.set(best, offset + 1);
+  }
+
+  return out;
+};
+
+/**
+ * Encodes RGBA frames into an animated PNG (APNG). Every frame is stored
+ * in full, so the default frame doubles as the static fallback image.
+ */
+export const encodeApng = async (frames: PixelFrame[], options: ApngEncodeOptions): Promise<Uint8Array> => {
+  if (frames.length === 0) throw new Error("Cannot encode an APNG without frames.");
+  const { width, height } = frames[0];
+  if (frames.some(f => f.width !== width || f.height !== height)) {
+    throw new Error("All APNG frames must have the same dimensions.");
+  }
+
+  // Delays are stored as a fraction over 1000, i.e. in milliseconds
+  const delayFor = (index: number) => Math.max(1, Math.min(65535, Math.round(options.durations?.[index] ?? 1000 / options.fps)));
+  const parts: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE)];
+
+  // IHDR: 8-bit RGBA, deflate, adaptive filtering, no interlace
+  parts.push(chunk('IHDR', new Uint8Array([...u32(width), ...u32(height), 8, 6, 0, 0, 0])));
+  parts.push(chunk('acTL', new Uint8Array([...u32(frames.length), ...u32(options.loopCount ?? 0)])));
+
+  let sequence = 0;
+  for (let i = 0; i < frames.length; i++) {
+    parts.push(chunk('fcTL', new Uint8Array([
+      ...u32(sequence++),
+      ...u32(width),
+      ...u32(height),
+      ...u32(0),
+      ...u32(0),
+      ...u16(delayFor(i)),
+      ...u16(1000),
+      0, // dispose_op: none
+      0, // blend_op: source
+    ])));
+
+    const compressed = await deflate(filterScanlines(frames[i]));
+    if (i === 0) {
+      parts.push(chunk('IDAT', compressed));
+    } else {
+      const fdat = new Uint8Array(4 + compressed.length);
+      fdat.set(u32(sequence++), 0);
+      fdat.set(compressed, 4);
+      parts.push(chunk('fdAT', fdat));
+    }
+  }
+
+  parts.push(chunk('IEND', new Uint8Array(0)));
+
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
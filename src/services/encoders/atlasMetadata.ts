@@ -0,0 +1,94 @@
+import { PlaybackMode } from '../../types';
+import type { Rect } from '../processing/atlas';
+
+export interface AtlasFrame {
+  /** File name the frame is known by, e.g. frame_001.png. */
+  name: string;
+  /** Region on the sheet. */
+  frame: Rect;
+  /** Where that region sits inside the untrimmed frame. */
+  spriteSourceSize: Rect;
+  sourceSize: { w: number; h: number };
+  /** Display time in milliseconds. */
+  duration: number;
+}
+
+export interface AtlasMeta {
+  /** File name of the sheet image, as referenced by the metadata. */
+  image: string;
+  width: number;
+  height: number;
+  playback: PlaybackMode;
+}
+
+const APP = 'Motion Gen';
+
+const frameEntry = (frame: AtlasFrame) => ({
+  frame: frame.frame,
+  rotated: false,
+  trimmed: frame.frame.w !== frame.sourceSize.w || frame.frame.h !== frame.sourceSize.h,
+  spriteSourceSize: frame.spriteSourceSize,
+  sourceSize: frame.sourceSize,
+  duration: Math.round(frame.duration),
+});
+
+// Frame tags follow Aseprite's extension of the format, which most engines' importers read
+const metaEntry = (frames: AtlasFrame[], meta: AtlasMeta) => ({
+  app: APP,
+  version: '1.0',
+  image: meta.image,
+  format: 'RGBA8888',
+  size: { w: meta.width, h: meta.height },
+  scale: '1',
+  frameTags: [{
+    name: 'motion',
+    from: 0,
+    to: frames.length - 1,
+    direction: meta.playback === 'ping-pong' ? 'pingpong' : 'forward',
+    ...(meta.playback === 'once' ? { repeat: '1' } : {}),
+  }],
+});
+
+/** TexturePacker "JSON (Hash)": frames keyed by name. */
+export const texturePackerHash = (frames: AtlasFrame[], meta: AtlasMeta): string =>
+  JSON.stringify({
+    frames: Object.fromEntries(frames.map(frame => [frame.name, frameEntry(frame)])),
+    meta: metaEntry(frames, meta),
+  }, null, 2);
+
+/** TexturePacker "JSON (Array)": frames in playback order with a filename field. */
+export const texturePackerArray = (frames: AtlasFrame[], meta: AtlasMeta): string =>
+  JSON.stringify({
+    frames: frames.map(frame => ({ filename: frame.name, ...frameEntry(frame) })),
+    meta: metaEntry(frames, meta),
+  }, null, 2);
+
+/**
+ * Plain CSS sprites: one class per frame on top of a shared `.sprite`
+ * class. Trimmed frames get margins that restore the untrimmed box, and
+ * each carries its duration as `--duration`.
+ */
+export const spriteSheetCss = (frames: AtlasFrame[], meta: AtlasMeta): string => {
+  const rules = frames.map(({ name, frame, spriteSourceSize: source, sourceSize, duration }) => {
+    const className = name.replace(/\.[^.]+$/, '').replace(/[^a-zA-Z0-9_-]/g, '-');
+    const margin = [source.y, sourceSize.w - source.x - source.w, sourceSize.h - source.y - source.h, source.x];
+    return [
+      `.sprite.${className} {`,
+      `  width: ${frame.w}px;`,
+      `  height: ${frame.h}px;`,
+      `  background-position: -${frame.x}px -${frame.y}px;`,
+      ...(margin.some(m => m !== 0) ? [`  margin: ${margin.map(m => `${m}px`).join(' ')};`] : []),
+      `  --duration: ${Math.round(duration)}ms;`,
+      `}`,
+    ].join('\n');
+  });
+  const header = [
+    `/* Generated by ${APP}: ${frames.length} frames, ${meta.width}x${meta.height} sheet */`,
+    `.sprite {`,
+    `  display: inline-block;`,
+    `  background-image: url('${meta.image}');`,
+    `  background-repeat: no-repeat;`,
+    `}`,
+  ].join('\n');
+  return `${[header, ...rules].join('\n\n')}\n`;
+};
@@ -0,0 +1,322 @@
+import { PixelFrame } from '../../types';
+
+export interface GifEncodeOptions {
+  fps: number;
+  /** Per-frame display time in milliseconds. Overrides fps when given. */
+  durations?: number[];
+  /** Total number of plays. 0 loops forever. */
+  loopCount?: number;
+  /** Apply Floyd-Steinberg error diffusion when mapping to the palette. */
+  dither?: boolean;
+  /** Palette size, between 2 and 256. */
+  maxColors?: number;
+}
+
+export type Palette = Array<[number, number, number]>;
+
+/**
+ * Builds a shared palette for all frames using median cut over a 15-bit
+ * color histogram. A single global palette keeps colors stable between
+ * frames, which avoids the shimmering per-frame palettes cause.
+ */
+export const quantizePalette = (frames: PixelFrame[], maxColors: number = 256): Palette => {
+  const counts = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+
+  for (const frame of frames) {
+    const { data } = frame;
+    for (let p = 0; p < data.length; p += 4) {
+      const key = ((data[p] >> 3) << 10) | ((data[p + 1] >> 3) << 5) | (data[p + 2] >> 3);
+      counts[key]++;
+      sums[key * 3] += data[p];
+      sums[key * 3 + 1] += data[p + 1];
+      sums[key * 3 + 2] += data[p + 2];
+    }
+  }
+
+  const buckets: number[] = [];
+  for (let key = 0; key < counts.length; key++) {
+    if (counts[key] > 0) buckets.push(key);
+  }
+  if (buckets.length === 0) return [[0, 0, 0]];
+
+  const channel = (key: number, c: number) => sums[key * 3 + c] / counts[key];
+
+  interface Box { keys: number[]; channel: number; range: number; weight: number }
+  const describe = (keys: number[]): Box => {
+    const min = [255, 255, 255];
+    const max = [0, 0, 0];
+    let weight = 0;
+    for (const key of keys) {
+      weight += counts[key];
+      for (let c = 0; c < 3; c++) {
+        const v = channel(key, c);
+        if (v < min[c]) min[c] = v;
+        if (v > max[c]) max[c] = v;
+      }
+    }
+    const ranges = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+    const widest = ranges.indexOf(Math.max(...ranges));
+    return { keys, channel: widest, range: ranges[widest], weight };
+  };
+
+  const boxes: Box[] = [describe(buckets)];
+  while (boxes.length < maxColors) {
+    // Split the box with the most spread-out, most populated colors first
+    let target = -1;
+    let best = 0;
+    boxes.forEach((box, i) => {
+      const score = box.range * Math.sqrt(box.weight);
+      if (box.keys.length > 1 && score > best) {
+        best = score;
+        target = i;
+      }
+    });
+    if (target === -1) break;
+
+    const box = boxes[target];
+    const sorted = [...box.keys].sort((a, b) => channel(a, box.channel) - channel(b, box.channel));
+    let acc = 0;
+    let split = 1;
+    for (let i = 0; i < sorted.length - 1; i++) {
+      acc += counts[sorted[i]];
+      if (acc >= box.weight / 2) {
+        split = i + 1;
+        break;
+      }
+    }
+    boxes.splice(target, 1, describe(sorted.slice(0, split)), describe(sorted.slice(split)));
+  }
+
+  return boxes.map(box => {
+    const total = [0, 0, 0];
+    for (const key of box.keys) {
+      total[0] += sums[key * 3];
+      total[1] += sums[key * 3 + 1];
+      total[2] += sums[key * 3 + 2];
+    }
+    return [
+      Math.round(total[0] / box.weight),
+      Math.round(total[1] / box.weight),
+      Math.round(total[2] / box.weight),
+    ] as [number, number, number];
+  });
+};
+
+/**
+ * Returns a nearest-color lookup backed by a 15-bit cache, so repeated
+ * colors (and dithered near-duplicates) don't rescan the palette.
+ */
+const createColorMatcher = (palette: Palette) => {
+  const cache = new Int16Array(32768).fill(-1);
+  return (r: number, g: number, b: number): number => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const cached = cache[key];
+    if (cached !== -1) return cached;
+
+    let bestIndex = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < palette.length; i++) {
+      const [pr, pg, pb] = palette[i];
+      const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = i;
+      }
+    }
+    cache[key] = bestIndex;
+    return bestIndex;
+  };
+};
+
+/**
+ * Maps a frame's pixels to palette indices, optionally with Floyd-Steinberg dithering.
+ */
+export const mapToPalette = (frame: PixelFrame, palette: Palette, dither: boolean = false): Uint8Array => {
+  const { width, height, data } = frame;
+  const match = createColorMatcher(palette);
+  const indices = new Uint8Array(width * height);
+
+  if (!dither) {
+    for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+      indices[i] = match(data[p], data[p + 1], data[p + 2]);
+    }
+    return indices;
+  }
+
+  const work = new Float32Array(width * height * 3);
+  for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+    work[i * 3] = data[p];
+    work[i * 3 + 1] = data[p + 1];
+    work[i * 3 + 2] = data[p + 2];
+  }
+
+  const spread = (x: number, y: number, err: number[], factor: number) => {
+    if (x < 0 || x >= width || y >= height) return;
+    const o = (y * width + x) * 3;
+    work[o] += err[0] * factor;
+    work[o + 1] += err[1] * factor;
+    work[o + 2] += err[2] * factor;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const r = Math.min(255, Math.max(0, Math.round(work[i * 3])));
+      const g = Math.min(255, Math.max(0, Math.round(work[i * 3 + 1])));
+      const b = Math.min(255, Math.max(0, Math.round(work[i * 3 + 2])));
+      const index = match(r, g, b);
+      indices[i] = index;
+
+      const [pr, pg, pb] = palette[index];
+      const err = [r - pr, g - pg, b - pb];
+      spread(x + 1, y, err, 7 / 16);
+      spread(x - 1, y + 1, err, 3 / 16);
+      spread(x, y + 1, err, 5 / 16);
+      spread(x + 1, y + 1, err, 1 / 16);
+    }
+  }
+
+  return indices;
+};
+
+/**
+ * GIF-flavored LZW compression with variable code width (max 12 bits).
+ */
+export const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const out: number[] = [];
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+  let table = new Map<number, number>();
+
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indices.length === 0) {
+    emit(eoiCode);
+    if (bitCount > 0) out.push(bitBuffer & 0xff);
+    return new Uint8Array(out);
+  }
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === 4096) {
+      // Table full: reset the dictionary
+      emit(clearCode);
+      table = new Map();
+      nextCode = eoiCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= (1 << codeSize)) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+
+  emit(prefix);
+  emit(eoiCode);
+  if (bitCount > 0) out.push(bitBuffer & 0xff);
+
+  return new Uint8Array(out);
+};
+
+/**
+ * Encodes RGBA frames into an animated GIF89a. All frames must share the
+ * dimensions of the first one.
+ */
+export const encodeGif = (frames: PixelFrame[], options: GifEncodeOptions): Uint8Array => {
+  if (frames.length === 0) throw new Error("Cannot encode a GIF without frames.");
+  const { width, height } = frames[0];
+  if (frames.some(f => f.width !== width || f.height !== height)) {
+    throw new Error("All GIF frames must have the same dimensions.");
+  }
+
+  const maxColors = Math.min(256, Math.max(2, options.maxColors ?? 256));
+  const palette = quantizePalette(frames, maxColors);
+
+  // The color table size must be a power of two (2..256)
+  let tableBits = 1;
+  while ((1 << tableBits) < palette.length) tableBits++;
+  const tableSize = 1 << tableBits;
+  const minCodeSize = Math.max(2, tableBits);
+
+  const bytes: number[] = [];
+  const writeU16 = (v: number) => bytes.push(v & 0xff, (v >> 8) & 0xff);
+  const writeString = (s: string) => {
+    for (let i = 0; i < s.length; i++) bytes.push(s.charCodeAt(i));
+  };
+
+  // Header + logical screen descriptor with global color table
+  writeString('GIF89a');
+  writeU16(width);
+  writeU16(height);
+  bytes.push(0x80 | (0x07 << 4) | (tableBits - 1), 0, 0);
+  for (let i = 0; i < tableSize; i++) {
+    const color = palette[i] ?? [0, 0, 0];
+    bytes.push(color[0], color[1], color[2]);
+  }
+
+  // NETSCAPE2.0 stores repetitions after the first play; omit it to play once
+  const loopCount = options.loopCount ?? 0;
+  if (loopCount !== 1) {
+    bytes.push(0x21, 0xff, 0x0b);
+    writeString('NETSCAPE2.0');
+    bytes.push(0x03, 0x01);
+    writeU16(loopCount === 0 ? 0 : loopCount - 1);
+    bytes.push(0x00);
+  }
+
+  // GIF delays are in hundredths of a second; most viewers clamp anything below 2
+  const delayFor = (index: number) =>
+    Math.max(2, Math.round((options.durations?.[index] ?? 1000 / options.fps) / 10));
+
+  for (let f = 0; f < frames.length; f++) {
+    const frame = frames[f];
+    // Graphic control extension: disposal "do not dispose", no transparency
+    bytes.push(0x21, 0xf9, 0x04, 0x04);
+    writeU16(delayFor(f));
+    bytes.push(0x00, 0x00);
+
+    // Image descriptor covering the full canvas, no local color table
+    bytes.push(0x2c);
+    writeU16(0);
+    writeU16(0);
+    writeU16(width);
+    writeU16(height);
+    bytes.push(0x00);
+
+    const indices = mapToPalette(frame, palette, options.dither);
+    const compressed = lzwEncode(indices, minCodeSize);
+    bytes.push(minCodeSize);
+    for (let offset = 0; offset < compressed.length; offset += 255) {
+      const block = compressed.subarray(offset, offset + 255);
+      bytes.push(block.length);
+      for (let i = 0; i < block.length; i++) bytes.push(block[i]);
+    }
+    bytes.push(0x00);
+  }
+
+  bytes.push(0x3b);
+  return new Uint8Array(bytes);
+};
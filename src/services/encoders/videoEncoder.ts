@@ -0,0 +1,142 @@
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget } from 'webm-muxer';
+import { Muxer as MP4Muxer, ArrayBufferTarget as MP4Target } from 'mp4-muxer';
+
+export type VideoContainer = 'webm' | 'mp4';
+
+export interface VideoEncodeOptions {
+  container: VideoContainer;
+  fps: number;
+  /** Per-frame display time in milliseconds. Overrides fps when given. */
+  durations?: number[];
+  /** Target bitrate in bits per second. */
+  bitrate: number;
+  width: number;
+  height: number;
+}
+
+interface CodecChoice {
+  /** WebCodecs codec string. */
+  codec: string;
+  /** Codec identifier understood by the muxer. */
+  muxerCodec: string;
+}
+
+// Ordered by preference; the first one the browser can encode wins
+const CODEC_CANDIDATES: Record<VideoContainer, CodecChoice[]> = {
+  webm: [
+    { codec: 'vp09.00.10.08', muxerCodec: 'V_VP9' },
+    { codec: 'vp8', muxerCodec: 'V_VP8' },
+  ],
+  mp4: [
+    { codec: 'avc1.640028', muxerCodec: 'avc' },
+    { codec: 'avc1.42001f', muxerCodec: 'avc' },
+  ],
+};
+
+const MAX_ENCODE_QUEUE = 8;
+
+export const isWebCodecsSupported = (): boolean =>
+  typeof window !== 'undefined' && 'VideoEncoder' in window && 'VideoFrame' in window;
+
+const pickCodec = async (options: VideoEncodeOptions): Promise<CodecChoice | null> => {
+  for (const candidate of CODEC_CANDIDATES[options.container]) {
+    const { supported } = await VideoEncoder.isConfigSupported({
+      codec: candidate.codec,
+      width: options.width,
+      height: options.height,
+      bitrate: options.bitrate,
+      framerate: options.fps,
+    });
+    if (supported) return candidate;
+  }
+  return null;
+};
+
+/**
+ * Encodes frames offline with WebCodecs. Each frame is stamped with an exact
+ * timestamp derived from its index, so output timing is independent of tab
+ * focus and encoding runs as fast as the machine allows.
+ */
+export const encodeVideo = async (
+  images: CanvasImageSource[],
+  options: VideoEncodeOptions,
+  onProgress?: (completed: number, total: number) => void
+): Promise<Blob> => {
+  if (images.length === 0) throw new Error("Cannot encode a video without frames.");
+
+  // H.264 and most VP9 profiles require even dimensions
+  const width = Math.max(2, Math.round(options.width / 2) * 2);
+  const height = Math.max(2, Math.round(options.height / 2) * 2);
+  const sized = { ...options, width, height };
+
+  const choice = await pickCodec(sized);
+  if (!choice) throw new Error(`No supported ${options.container.toUpperCase()} encoder found.`);
+
+  const muxer = options.container === 'webm'
+    ? new WebMMuxer({
+        target: new WebMTarget(),
+        video: { codec: choice.muxerCodec, width, height, frameRate: options.fps },
+      })
+    : new MP4Muxer({
+        target: new MP4Target(),
+        video: { codec: 'avc', width, height, frameRate: options.fps },
+        fastStart: 'in-memory',
+      });
+
+  let encodeError: unknown = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (e) => { encodeError = e; },
+  });
+  encoder.configure({
+    codec: choice.codec,
+    width,
+    height,
+    bitrate: options.bitrate,
+    framerate: options.fps,
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  // Timestamps in microseconds; held frames simply get a longer duration
+  const durationOf = (index: number) => (options.durations?.[index] ?? 1000 / options.fps) * 1000;
+  const keyFrameInterval = Math.max(1, Math.round(options.fps * 2));
+  let timestamp = 0;
+
+  try {
+    for (let i = 0; i < images.length; i++) {
+      if (encodeError) throw encodeError;
+
+      // Backpressure: don't let the encoder queue grow unbounded
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(r => setTimeout(r, 5));
+      }
+
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, width, height);
+      ctx.drawImage(images[i], 0, 0, width, height);
+
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(timestamp),
+        duration: Math.round(durationOf(i)),
+      });
+      encoder.encode(frame, { keyFrame: i % keyFrameInterval === 0 });
+      frame.close();
+      timestamp += durationOf(i);
+      onProgress?.(i + 1, images.length);
+    }
+
+    await encoder.flush();
+    if (encodeError) throw encodeError;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  muxer.finalize();
+  const mimeType = options.container === 'webm' ? 'video/webm' : 'video/mp4';
+  return new Blob([muxer.target.buffer], { type: mimeType });
+};
@@ -0,0 +1,257 @@
+import { encodeGif } from './encoders/gifEncoder';
+import { encodeApng } from './encoders/apngEncoder';
+import { encodeVideo, isWebCodecsSupported, VideoContainer } from './encoders/videoEncoder';
+import { AtlasFrame, spriteSheetCss, texturePackerArray, texturePackerHash } from './encoders/atlasMetadata';
+import { layoutAtlas, trimBounds } from './processing/atlas';
+import { BatchItem, PlaybackMode, SpriteSheetOptions } from '../types';
+import { IMAGE_EXTENSIONS, rasterizeFrames, loadFrames, parseDataUrl } from '../utils/imageUtils';
+import { DEFAULT_PLAYBACK, buildTimeline } from '../utils/playback';
+import JSZip from 'jszip';
+
+export interface AnimatedExportOptions {
+  fps: number;
+  /** Per-frame display time in milliseconds. Overrides fps when given. */
+  durations?: number[];
+  /** Total number of plays. 0 loops forever. */
+  loopCount: number;
+  /** GIF only: dither when reducing to a 256-color palette. */
+  dither?: boolean;
+}
+
+/**
+ * Encodes the frame sequence as an animated GIF entirely in the browser.
+ */
+export const exportGif = async (frames: string[], options: AnimatedExportOptions): Promise<Blob> => {
+  const pixels = await rasterizeFrames(frames);
+  const bytes = encodeGif(pixels, {
+    fps: options.fps,
+    durations: options.durations,
+    loopCount: options.loopCount,
+    dither: options.dither,
+  });
+  return new Blob([bytes as BlobPart], { type: 'image/gif' });
+};
+
+/**
+ * Encodes the frame sequence as a lossless animated PNG entirely in the browser.
+ */
+export const exportApng = async (frames: string[], options: AnimatedExportOptions): Promise<Blob> => {
+  const pixels = await rasterizeFrames(frames);
+  const bytes = await encodeApng(pixels, {
+    fps: options.fps,
+    durations: options.durations,
+    loopCount: options.loopCount,
+  });
+  return new Blob([bytes as BlobPart], { type: 'image/apng' });
+};
+
+export interface VideoExportOptions {
+  container: VideoContainer;
+  fps: number;
+  /** Per-frame display time in milliseconds. Overrides fps when given. */
+  durations?: number[];
+  /** Target bitrate in bits per second. */
+  bitrate: number;
+  /** Output height in pixels; width follows the first frame's aspect ratio. Defaults to the source size. */
+  height?: number;
+}
+
+export interface VideoExportResult {
+  blob: Blob;
+  /** File extension matching what was actually produced. */
+  extension: string;
+}
+
+/**
+ * Fallback for browsers without WebCodecs: replays the frames onto a canvas
+ * in real time while MediaRecorder captures it. Timing is only as accurate
+ * as the browser's timers.
+ */
+const recordVideo = async (
+  images: HTMLImageElement[],
+  width: number,
+  height: number,
+  options: VideoExportOptions
+): Promise<VideoExportResult> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  // Determine supported MIME type, preferring the requested container
+  const candidates = options.container === 'mp4' ? ['video/mp4', 'video/webm'] : ['video/webm', 'video/mp4'];
+  const mimeType = candidates.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error("Video recording not supported on this browser.");
+  }
+
+  const stream = canvas.captureStream(options.fps);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: options.bitrate });
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  for (let i = 0; i < images.length; i++) {
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(images[i], 0, 0, width, height);
+    await new Promise(r => setTimeout(r, options.durations?.[i] ?? 1000 / options.fps));
+  }
+  recorder.stop();
+  await stopped;
+
+  return {
+    blob: new Blob(chunks, { type: mimeType }),
+    extension: mimeType === 'video/mp4' ? 'mp4' : 'webm',
+  };
+};
+
+/**
+ * Encodes the frame sequence as a video. Uses frame-accurate offline
+ * encoding through WebCodecs when available and falls back to real-time
+ * MediaRecorder capture otherwise.
+ */
+export const exportVideo = async (
+  frames: string[],
+  options: VideoExportOptions,
+  onProgress?: (completed: number, total: number) => void
+): Promise<VideoExportResult> => {
+  if (frames.length === 0) throw new Error("No frames to export.");
+
+  const images = await loadFrames(frames);
+  const height = options.height ?? images[0].height;
+  const width = Math.round(height * (images[0].width / images[0].height));
+
+  if (isWebCodecsSupported()) {
+    try {
+      const blob = await encodeVideo(images, { ...options, width, height }, onProgress);
+      return { blob, extension: options.container };
+    } catch (error) {
+      console.warn("WebCodecs encoding failed, falling back to MediaRecorder", error);
+    }
+  }
+
+  return recordVideo(images, width, height, options);
+};
+
+export const DEFAULT_SPRITE_SHEET: SpriteSheetOptions = {
+  layout: 'grid',
+  columns: 0,
+  padding: 2,
+  trim: false,
+  powerOfTwo: false,
+};
+
+export interface SpriteSheetFrame {
+  image: string;
+  /** File name used in the metadata, e.g. frame_001.png. */
+  name: string;
+  /** Display time in milliseconds. */
+  duration: number;
+}
+
+/**
+ * Packs the frames onto one sheet and bundles it as a ZIP with TexturePacker
+ * JSON (hash and array) and CSS sprite metadata. Frames keep their order in
+ * the metadata whatever the packing, so engines play them as listed.
+ */
+export const exportSpriteSheet = async (
+  frames: SpriteSheetFrame[],
+  options: SpriteSheetOptions,
+  playback: PlaybackMode,
+): Promise<Blob> => {
+  if (frames.length === 0) throw new Error("No frames to export.");
+
+  const pixels = await rasterizeFrames(frames.map(f => f.image));
+  const { width: sourceWidth, height: sourceHeight } = pixels[0];
+  const bounds = pixels.map(frame => (options.trim ? trimBounds(frame) : { x: 0, y: 0, w: sourceWidth, h: sourceHeight }));
+  const layout = layoutAtlas(bounds.map(({ w, h }) => ({ w, h })), options);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  const imageData = ctx.createImageData(sourceWidth, sourceHeight);
+  pixels.forEach((frame, i) => {
+    const { x, y } = layout.placements[i];
+    const bound = bounds[i];
+    imageData.data.set(frame.data);
+    // The dirty rectangle copies only the trimmed region to its placement
+    ctx.putImageData(imageData, x - bound.x, y - bound.y, bound.x, bound.y, bound.w, bound.h);
+  });
+  const sheet = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode the sprite sheet."))), 'image/png'));
+
+  const atlasFrames: AtlasFrame[] = frames.map((frame, i) => ({
+    name: frame.name,
+    frame: layout.placements[i],
+    spriteSourceSize: bounds[i],
+    sourceSize: { w: sourceWidth, h: sourceHeight },
+    duration: frame.duration,
+  }));
+  const meta = { image: 'spritesheet.png', width: layout.width, height: layout.height, playback };
+
+  const zip = new JSZip();
+  zip.file('spritesheet.png', sheet);
+  zip.file('spritesheet.json', texturePackerHash(atlasFrames, meta));
+  zip.file('spritesheet-array.json', texturePackerArray(atlasFrames, meta));
+  zip.file('spritesheet.css', spriteSheetCss(atlasFrames, meta));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+// Folder names stay readable but safe on every file system, and unique within the archive
+const folderName = (name: string, taken: Set<string>) => {
+  const base = name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'image';
+  let folder = base;
+  for (let n = 2; taken.has(folder); n++) folder = `${base} (${n})`;
+  taken.add(folder);
+  return folder;
+};
+
+/**
+ * Bundles a batch into one ZIP with a folder per image: its frames in
+ * sequence order, timing.json as in single-run exports and the settings it
+ * was generated with. batch.json at the root lists every image and its outcome.
+ */
+export const exportBatch = async (items: BatchItem[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const taken = new Set<string>();
+  const manifest = items.map(item => {
+    const folder = folderName(item.name, taken);
+    const ready = item.frames.map((frame, i) => (frame.imageUrl ? i : -1)).filter(i => i >= 0);
+    const filenames = new Map<number, string>();
+    ready.forEach((frameIndex, index) => {
+      const { mimeType, data } = parseDataUrl(item.frames[frameIndex].imageUrl);
+      const filename = `frame_${String(index + 1).padStart(3, '0')}.${IMAGE_EXTENSIONS[mimeType] ?? 'png'}`;
+      filenames.set(frameIndex, filename);
+      zip.file(`${folder}/${filename}`, data, { base64: true });
+    });
+
+    if (item.settings) {
+      const fps = item.settings.timing.fps;
+      const timeline = buildTimeline(ready, item.frames.map(f => f.hold), fps, DEFAULT_PLAYBACK);
+      zip.file(`${folder}/timing.json`, JSON.stringify({
+        fps,
+        mode: DEFAULT_PLAYBACK.mode,
+        speed: DEFAULT_PLAYBACK.speed,
+        loopCount: 0,
+        timeline: timeline.map(entry => ({ file: filenames.get(entry.index), duration: Math.round(entry.duration) })),
+      }, null, 2));
+      zip.file(`${folder}/settings.json`, JSON.stringify(item.settings, null, 2));
+    }
+    return {
+      folder, name: item.name, status: item.status, frames: ready.length,
+      // Frames that never got an image are listed, so a short sequence is explained
+      missingFrames: item.frames.length - ready.length, error: item.error,
+    };
+  });
+  zip.file('batch.json', JSON.stringify({ createdAt: new Date().toISOString(), images: manifest }, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+};
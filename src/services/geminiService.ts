@@ -1,85 +1,72 @@
 
-import { GoogleGenAI } from "@google/genai";
+import { GenerateContentResponse, GoogleGenAI, Part } from "@google/genai";
+import { AspectRatio, FrameResult, InbetweenFrameRequest, MotionFrameRequest, MotionProvider, PromptTemplate, SamplingParams, UpscaleSize } from "../types";
+import { DEFAULT_SAMPLING, buildMotionPrompt, buildInbetweenPrompt, buildUpscalePrompt } from "./prompts";
+import { parseDataUrl } from "../utils/imageUtils";
+import { activeApiKey, getSettings } from "./settingsStore";
+
+// Inputs are normalized on upload, so the data URL's own type is the real one
+const toInlineImage = (base64Image: string) => ({ inlineData: parseDataUrl(base64Image) });
+
+// Returns the first image in a response as a data URL, or "" when there is none
+const responseImage = (response: GenerateContentResponse) => {
+  const parts = response.candidates?.[0]?.content?.parts ?? [];
+  const data = parts.find(part => part.inlineData?.data)?.inlineData?.data;
+  return data ? `data:image/png;base64,${data}` : "";
+};
 
 /**
- * Generates a motion frame based on an original image.
- * Uses gemini-2.5-flash-image for fast image-to-image generation.
+ * Sends a frame request to the given generation model, by default the one
+ * chosen in settings, and returns the generated frame.
  */
-export const generateMotionFrame = async (
-  base64Image: string,
-  frameIndex: number,
-  totalFrames: number,
-  description: string,
-  direction: string
-): Promise<string> => {
-  try {
-    // Initialize AI client inside the function to ensure it uses the latest process.env.API_KEY
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const generateFrameImage = async (
+  parts: Part[],
+  prompt: string,
+  sampling: SamplingParams,
+  model: string = getSettings().generationModel,
+  signal?: AbortSignal,
+): Promise<FrameResult> => {
+  // Initialize AI client inside the function to ensure it uses the latest key from settings
+  const ai = new GoogleGenAI({ apiKey: activeApiKey() });
+
+  const response = await ai.models.generateContent({
+    model,
+    contents: {
+      parts: [{ text: prompt }, ...parts],
+    },
+    config: {
+      temperature: sampling.temperature,
+      seed: sampling.seed,
+      abortSignal: signal,
+    }
+  });
 
-    // Strip the data:image prefix if present
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
+  const imageUrl = responseImage(response);
+  if (!imageUrl) {
+    throw new Error("No image data returned from Gemini.");
+  }
+  return { imageUrl, promptUsed: prompt };
+};
 
-    const model = 'gemini-2.5-flash-image';
-    
+/**
+ * Generates a motion frame based on an original image (or, in chained mode, the previous frame).
+ * Uses the request's model, or the generation model chosen in settings.
+ */
+export const generateMotionFrame = async (request: MotionFrameRequest): Promise<FrameResult> => {
+  const { frameIndex, chained, sampling = DEFAULT_SAMPLING, model, signal } = request;
+  try {
     // Construct a prompt that guides the model to create a sequential movement
-    const progress = Math.round((frameIndex / totalFrames) * 100);
-    
-    const prompt = `
-      Input image provided. 
-      Task: Generate a modified version of this image representing a specific moment in a motion sequence.
-      Context: This is frame ${frameIndex} of a ${totalFrames}-frame sequence.
-      Action: ${description}.
-      Direction of Movement: ${direction}.
-      
-      Instruction: 
-      - The main subject must appear to have moved in the direction: "${direction}".
-      - "Zoom In" means the subject gets closer/larger. "Zoom Out" means it gets farther/smaller.
-      - "Left", "Right", "Up", "Down" means the subject shifts position in the frame.
-      - This represents ${progress}% completion of the movement.
-      - Maintain the exact background, lighting, and art style of the original.
-      - Do not change the camera angle significantly unless the direction implies it (e.g., Zoom).
-      - Maintain consistency with the original image content.
-      - CRITICAL: Ensure there is strictly ONE instance of the main subject. Do NOT create duplicates, clones, or ghost images of the subject. Do NOT add other similar objects to the scene. The scene must contain only the original subject moved to the new position.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: [
-          {
-            text: prompt,
-          },
-          {
-            inlineData: {
-              mimeType: 'image/jpeg', 
-              data: cleanBase64,
-            },
-          },
-        ],
-      },
-      config: {
-        // We use a moderate temperature to balance creativity with consistency
-        temperature: 0.4, 
-      }
-    });
+    const prompt = buildMotionPrompt(request);
 
-    // Extract the image from the response
-    let generatedImageUrl = "";
-    if (response.candidates && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          generatedImageUrl = `data:image/png;base64,${part.inlineData.data}`;
-          break;
-        }
-      }
+    const parts = [toInlineImage(request.image)];
+    if (chained?.referenceImage) {
+      parts.push(toInlineImage(chained.referenceImage));
     }
-
-    if (!generatedImageUrl) {
-      throw new Error("No image data returned from Gemini.");
+    if (request.subjectMask) {
+      parts.push(toInlineImage(request.subjectMask));
     }
 
-    return generatedImageUrl;
-
+    return await generateFrameImage(parts, prompt, sampling, model, signal);
   } catch (error) {
     console.error(`Error generating frame ${frameIndex}:`, error);
     throw error;
@@ -87,58 +74,57 @@ export const generateMotionFrame = async (
 };
 
 /**
- * Upscales a frame using Gemini 3 Pro Image Preview.
+ * Generates an in-between frame from a start and an end keyframe.
+ * Both keyframes are sent, together with the frame's position between them.
+ */
+export const generateInbetweenFrame = async (request: InbetweenFrameRequest): Promise<FrameResult> => {
+  const { frameIndex, sampling = DEFAULT_SAMPLING, model, signal } = request;
+  try {
+    const prompt = buildInbetweenPrompt(request);
+    const parts = [toInlineImage(request.startImage), toInlineImage(request.endImage)];
+    return await generateFrameImage(parts, prompt, sampling, model, signal);
+  } catch (error) {
+    console.error(`Error generating in-between frame ${frameIndex}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Upscales a frame with the upscale model chosen in settings.
  * Requires a paid API key which is handled by the caller ensuring key selection.
  */
 export const upscaleFrame = async (
   base64Image: string,
-  aspectRatio: string = "1:1"
+  aspectRatio: string = "1:1",
+  size: UpscaleSize = '2K',
+  template?: PromptTemplate
 ): Promise<string> => {
   try {
     // IMPORTANT: Create a new instance to ensure we pick up the selected API key if it changed
     // This is required when switching to Pro models that might require a specific key scope
-    const freshAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const freshAi = new GoogleGenAI({ apiKey: activeApiKey() });
     
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
-    const model = 'gemini-3-pro-image-preview';
+    const model = getSettings().upscaleModel;
 
-    const prompt = `
-      High-Quality Upscale Task.
-      Enhance the resolution, details, clarity, and texture of this image to 2K quality.
-      Strictly maintain the original composition, subject pose, lighting, and style.
-      Do not change the content or add new objects. This is a direct upscale.
-    `;
+    const prompt = buildUpscalePrompt(size, template);
 
     const response = await freshAi.models.generateContent({
       model: model,
       contents: {
         parts: [
           { text: prompt },
-          {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: cleanBase64,
-            },
-          },
+          toInlineImage(base64Image),
         ],
       },
       config: {
         imageConfig: {
-          imageSize: '2K',
+          imageSize: size,
           aspectRatio: aspectRatio as any, // Cast to match API literal type requirement if needed
         },
       }
     });
 
-    let upscaledImageUrl = "";
-    if (response.candidates && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          upscaledImageUrl = `data:image/png;base64,${part.inlineData.data}`;
-          break;
-        }
-      }
-    }
+    const upscaledImageUrl = responseImage(response);
 
     if (!upscaledImageUrl) {
       throw new Error("No upscaled image returned from Gemini.");
@@ -151,3 +137,40 @@ export const upscaleFrame = async (
     throw error;
   }
 };
+
+/**
+ * Checks that a key is accepted and can use the model, with a metadata
+ * request that costs nothing. An empty key checks the one built into the app.
+ * Throws the API's error otherwise.
+ */
+export const verifyGeminiAccess = async (apiKey: string, model: string, signal?: AbortSignal): Promise<void> => {
+  const ai = new GoogleGenAI({ apiKey: apiKey || process.env.API_KEY });
+  await ai.models.get({ model, config: { abortSignal: signal } });
+};
+
+/**
+ * Gemini adapter for the MotionProvider interface.
+ */
+export const geminiProvider: MotionProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  // Follows the settings, so each run records the models it actually used
+  get models() {
+    const { generationModel, upscaleModel } = getSettings();
+    return { generation: generationModel, upscale: upscaleModel };
+  },
+  capabilities: {
+    aspectRatios: ["1:1", "3:4", "4:3", "9:16", "16:9"],
+    canUpscale: true,
+    upscaleSizes: ['1K', '2K', '4K'],
+    // Published per-image output pricing of the Pro image model at the time of writing
+    upscaleCost: { '1K': 0.134, '2K': 0.134, '4K': 0.24 },
+    supportsKeyframes: true,
+    requiresApiKey: true,
+    requiresNetwork: true,
+  },
+  generateFrame: generateMotionFrame,
+  generateInbetween: generateInbetweenFrame,
+  upscaleFrame: (image: string, aspectRatio: AspectRatio, size: UpscaleSize, template?: PromptTemplate) =>
+    upscaleFrame(image, aspectRatio, size, template),
+};
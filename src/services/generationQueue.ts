@@ -0,0 +1,142 @@
+import { FrameJobStatus } from '../types';
+
+export interface JobQueueOptions {
+  /** Maximum number of jobs running at once. */
+  concurrency: number;
+  /** Retries per job after the first attempt, for retryable errors only. */
+  maxRetries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export type JobStatusListener = (status: FrameJobStatus, attempts: number, error?: string) => void;
+
+export interface JobQueue {
+  /** Schedules a job; resolves with its result or rejects once retries are exhausted. */
+  enqueue: <T>(run: (signal: AbortSignal) => Promise<T>, onStatus?: JobStatusListener) => Promise<T>;
+  /** Aborts running jobs and rejects everything still waiting. The queue stays usable. */
+  cancel: () => void;
+  setOptions: (options: Partial<JobQueueOptions>) => void;
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job was cancelled.");
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Rate limits (429), server errors (5xx) and empty image responses are
+ * worth retrying; anything else (bad request, safety block) is not.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|5\d\d)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|No image data|No upscaled image/i.test(message);
+};
+
+export const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal.aborted) return reject(new JobCancelledError());
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new JobCancelledError());
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+interface QueuedJob {
+  start: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Creates a job queue with a concurrency cap and exponential backoff.
+ * A job holds its slot while backing off, so a burst of rate-limit
+ * errors naturally slows the whole queue down.
+ */
+export const createJobQueue = (initial: JobQueueOptions): JobQueue => {
+  let options: Required<JobQueueOptions> = { baseDelayMs: 1000, maxDelayMs: 30000, ...initial };
+  let controller = new AbortController();
+  let active = 0;
+  let waiting: QueuedJob[] = [];
+
+  const pump = () => {
+    while (active < options.concurrency && waiting.length > 0) {
+      const job = waiting.shift()!;
+      active++;
+      job.start();
+    }
+  };
+
+  const enqueue = <T>(run: (signal: AbortSignal) => Promise<T>, onStatus?: JobStatusListener): Promise<T> => {
+    onStatus?.('pending', 0);
+
+    return new Promise<T>((resolve, reject) => {
+      const start = async () => {
+        const signal = controller.signal;
+        let attempts = 0;
+        try {
+          while (true) {
+            if (signal.aborted) throw new JobCancelledError();
+            attempts++;
+            onStatus?.('running', attempts);
+            try {
+              const result = await run(signal);
+              onStatus?.('done', attempts);
+              resolve(result);
+              return;
+            } catch (error) {
+              if (signal.aborted) throw new JobCancelledError();
+              if (!isRetryableError(error) || attempts > options.maxRetries) throw error;
+
+              const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempts - 1));
+              const jitter = Math.random() * backoff * 0.25;
+              console.warn(`Job attempt ${attempts} failed, retrying in ${Math.round(backoff + jitter)}ms`, error);
+              onStatus?.('pending', attempts, errorMessage(error));
+              await wait(backoff + jitter, signal);
+            }
+          }
+        } catch (error) {
+          onStatus?.('failed', attempts, errorMessage(error));
+          reject(error);
+        } finally {
+          active--;
+          pump();
+        }
+      };
+
+      waiting.push({
+        start: () => { void start(); },
+        reject: (error) => {
+          onStatus?.('failed', 0, errorMessage(error));
+          reject(error);
+        },
+      });
+      pump();
+    });
+  };
+
+  const cancel = () => {
+    controller.abort();
+    controller = new AbortController();
+    const dropped = waiting;
+    waiting = [];
+    dropped.forEach(job => job.reject(new JobCancelledError()));
+  };
+
+  const setOptions = (next: Partial<JobQueueOptions>) => {
+    options = { ...options, ...next };
+    pump();
+  };
+
+  return { enqueue, cancel, setOptions };
+};
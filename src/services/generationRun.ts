@@ -0,0 +1,168 @@
+import { EasingConfig, FrameJobState, FrameResult, GeneratedFrame, GenerationMode, MotionDescription, MotionProvider, PromptTemplate, ProviderModels, RunSettings, SamplingParams } from '../types';
+import { frameProgress } from '../utils/easing';
+import { createFrame } from '../utils/frames';
+import { DEFAULT_PROMPT_TEMPLATE } from './prompts';
+import { JobQueue } from './generationQueue';
+
+/** Settings captured when a generation starts, so individual frames can be retried later. */
+export interface GenerationRun {
+  provider: MotionProvider;
+  mode: GenerationMode;
+  /** Chained mode: also send the original alongside the previous frame. */
+  useReference: boolean;
+  image: string;
+  /** Keyframe mode: in-betweens are generated between `image` and this end frame. */
+  endImage?: string;
+  /** White-on-black mask of the subject in `image`; can be edited after the run starts. */
+  subjectMask?: string;
+  frameCount: number;
+  fps: number;
+  easing: EasingConfig;
+  description: string;
+  motion: MotionDescription;
+  template: PromptTemplate;
+  /** The backend's default sampling when unset. */
+  sampling?: SamplingParams;
+  /** Models the run generates with, fixed when it starts so later frames match the first. */
+  models: ProviderModels;
+}
+
+export const toRunSettings = (run: GenerationRun): RunSettings => ({
+  providerId: run.provider.id,
+  description: run.description,
+  motion: run.motion,
+  timing: { frameCount: run.frameCount, fps: run.fps, easing: run.easing },
+  mode: run.mode,
+  useReference: run.useReference,
+  promptTemplate: run.template,
+  sampling: run.sampling,
+  models: run.models,
+});
+
+// In keyframe runs the end keyframe sits at full progress, one step after the last in-between
+const runFrameProgress = (run: GenerationRun, frameIndex: number) =>
+  frameProgress(frameIndex, run.frameCount + (run.endImage ? 1 : 0), run.easing);
+
+/**
+ * Requests one frame of a run from its provider. In chained mode `source`
+ * is the previous frame; otherwise it is the original. The result records
+ * the run's sampling and the frame's progress.
+ */
+export const requestRunFrame = async (run: GenerationRun, frameIndex: number, source: string, signal: AbortSignal): Promise<FrameResult> => {
+  const result = await (run.endImage
+    ? run.provider.generateInbetween({
+        startImage: run.image,
+        endImage: run.endImage,
+        frameIndex,
+        totalFrames: run.frameCount,
+        progress: runFrameProgress(run, frameIndex),
+        description: run.description,
+        template: run.template,
+        sampling: run.sampling,
+        model: run.models.generation,
+        signal,
+      })
+    : run.provider.generateFrame({
+        image: source,
+        frameIndex,
+        totalFrames: run.frameCount,
+        progress: runFrameProgress(run, frameIndex),
+        description: run.description,
+        motion: run.motion,
+        subjectMask: run.subjectMask,
+        template: run.template,
+        chained: run.mode === 'chained'
+          ? {
+              previousProgress: frameProgress(frameIndex - 1, run.frameCount, run.easing),
+              referenceImage: run.useReference ? run.image : undefined,
+            }
+          : undefined,
+        sampling: run.sampling,
+        model: run.models.generation,
+        signal,
+      }));
+  return { ...result, sampling: run.sampling, progress: runFrameProgress(run, frameIndex) };
+};
+
+/** Rebuilds a run from saved settings and the images it was made from. */
+export const fromRunSettings = (
+  settings: RunSettings,
+  provider: MotionProvider,
+  images: Pick<GenerationRun, 'image' | 'endImage' | 'subjectMask'>,
+): GenerationRun => ({
+  provider,
+  mode: settings.mode,
+  useReference: settings.useReference,
+  ...images,
+  frameCount: settings.timing.frameCount,
+  fps: settings.timing.fps,
+  easing: settings.timing.easing,
+  description: settings.description,
+  motion: settings.motion,
+  template: settings.promptTemplate ?? DEFAULT_PROMPT_TEMPLATE,
+  sampling: settings.sampling,
+  // Older runs didn't record their models, and another backend's models don't apply
+  models: settings.models && settings.providerId === provider.id ? settings.models : provider.models,
+});
+
+/**
+ * The empty sequence of a run: the original, a slot per frame to generate
+ * and, in keyframe mode, the end frame.
+ */
+export const createRunFrames = (run: GenerationRun): GeneratedFrame[] => [
+  { ...createFrame(run.image), anchor: 'start' },
+  ...Array.from({ length: run.frameCount }, (_, i) => ({ ...createFrame(), progress: runFrameProgress(run, i + 1) })),
+  ...(run.endImage ? [{ ...createFrame(run.endImage), anchor: 'end' as const }] : []),
+];
+
+export const initialFrameStates = (frames: GeneratedFrame[]): FrameJobState[] =>
+  frames.map((frame): FrameJobState => (frame.imageUrl ? { status: 'done', attempts: 0 } : { status: 'pending', attempts: 0 }));
+
+export interface SequenceListener {
+  onFrame: (index: number, result: FrameResult) => void;
+  onState: (index: number, state: FrameJobState) => void;
+}
+
+/**
+ * Generates a sequence's empty frames through the queue, so a partly
+ * finished sequence only fills its gaps. Chained runs continue from the
+ * last finished frame and stop at the first failure, marking the frames
+ * behind it as blocked. Resolves with the errors; never rejects.
+ */
+export const generateMissingFrames = async (
+  run: GenerationRun,
+  frames: GeneratedFrame[],
+  queue: JobQueue,
+  listener: SequenceListener,
+): Promise<unknown[]> => {
+  const runFrame = async (index: number, source: string) => {
+    const result = await queue.enqueue(
+      signal => requestRunFrame(run, index, source, signal),
+      (status, attempts, error) => listener.onState(index, { status, attempts, error }),
+    );
+    listener.onFrame(index, result);
+    return result.imageUrl;
+  };
+
+  if (run.mode !== 'chained') {
+    const results = await Promise.allSettled(frames.flatMap((frame, i) => (frame.imageUrl ? [] : [runFrame(i, run.image)])));
+    return results.flatMap(r => (r.status === 'rejected' ? [r.reason] : []));
+  }
+
+  let previous = run.image;
+  for (let i = 1; i < frames.length; i++) {
+    if (frames[i].imageUrl) {
+      previous = frames[i].imageUrl;
+      continue;
+    }
+    try {
+      previous = await runFrame(i, previous);
+    } catch (error) {
+      for (let j = i + 1; j < frames.length; j++) {
+        if (!frames[j].imageUrl) listener.onState(j, { status: 'failed', attempts: 0, error: `Waiting on frame ${i}` });
+      }
+      return [error];
+    }
+  }
+  return [];
+};
@@ -0,0 +1,46 @@
+import { InterpolationOptions } from '../types';
+import { blobToDataUrl, dataUrlToBlob } from '../utils/imageUtils';
+import { interpolationLayout } from './processing/interpolate';
+import { runWorkerJob } from './processing/workerJob';
+import type { InterpolateRequest } from './processing/interpolate.worker';
+
+export const INTERPOLATION_MULTIPLIERS = [1, 2, 3, 4, 6, 8];
+
+/** A frame of the expanded sequence. */
+export interface InterpolatedFrame {
+  imageUrl: string;
+  /** The source frame this slot comes from, or follows if interpolated. */
+  sourceIndex: number;
+  interpolated: boolean;
+}
+
+const passThrough = (frames: string[]): InterpolatedFrame[] =>
+  frames.map((imageUrl, sourceIndex) => ({ imageUrl, sourceIndex, interpolated: false }));
+
+/**
+ * Synthesizes in-between frames locally in a Web Worker, so a short run can
+ * be played and exported at a higher frame rate.
+ */
+export const interpolateFrames = async (
+  frames: string[],
+  options: InterpolationOptions,
+  onProgress?: (completed: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<InterpolatedFrame[]> => {
+  if (options.multiplier <= 1 || frames.filter(Boolean).length < 2) return passThrough(frames);
+
+  const worker = new Worker(new URL('./processing/interpolate.worker.ts', import.meta.url), { type: 'module' });
+  const request: InterpolateRequest = {
+    frames: frames.map(frame => (frame ? dataUrlToBlob(frame) : null)),
+    options,
+  };
+  const results = await runWorkerJob(worker, request, onProgress, signal);
+  const slots = interpolationLayout(frames.map(Boolean), options.multiplier);
+
+  return Promise.all(slots.map(async (slot, i) => ({
+    // Source frames keep their original data URL
+    imageUrl: slot.t === 0 ? frames[slot.sourceIndex] : await blobToDataUrl(results[i]!),
+    sourceIndex: slot.sourceIndex,
+    interpolated: slot.t > 0,
+  })));
+};
@@ -0,0 +1,37 @@
+import { LocalUpscaleOptions, UpscaleVariant } from '../types';
+import { blobToDataUrl, dataUrlToBlob } from '../utils/imageUtils';
+import { runWorkerJob } from './processing/workerJob';
+import type { UpscaleRequest } from './processing/upscale.worker';
+
+export const DEFAULT_LOCAL_UPSCALE: LocalUpscaleOptions = {
+  algorithm: 'lanczos3',
+  factor: 2,
+  sharpen: 0.5,
+};
+
+/**
+ * The key local results are stored under in a frame's upscales. Every
+ * setting is part of it, so a result is only reused for the settings that made it.
+ */
+export const localUpscaleVariant = ({ factor, algorithm, sharpen }: LocalUpscaleOptions): UpscaleVariant =>
+  `local-${factor}x-${algorithm}-s${Math.round(sharpen * 100)}`;
+
+/**
+ * Resamples frames by an integer factor in a Web Worker, with an optional
+ * unsharp-mask pass. Free and offline, for drafts or when the provider
+ * can't upscale. Empty frames stay empty.
+ */
+export const upscaleFramesLocally = async (
+  frames: string[],
+  options: LocalUpscaleOptions,
+  onProgress?: (completed: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<string[]> => {
+  const worker = new Worker(new URL('./processing/upscale.worker.ts', import.meta.url), { type: 'module' });
+  const request: UpscaleRequest = {
+    frames: frames.map(frame => (frame ? dataUrlToBlob(frame) : null)),
+    options,
+  };
+  const results = await runWorkerJob(worker, request, onProgress, signal);
+  return Promise.all(results.map(blob => (blob ? blobToDataUrl(blob) : '')));
+};
@@ -0,0 +1,173 @@
+import { AspectRatio, FrameResult, InbetweenFrameRequest, MotionDescription, MotionFrameRequest, MotionProvider, SamplingParams, UpscaleSize } from "../types";
+import { loadImage, ASPECT_RATIO_VALUES, UPSCALE_SIZE_PIXELS } from "../utils/imageUtils";
+import { evaluateMotion } from "../utils/motion";
+import { buildMotionPrompt, buildInbetweenPrompt } from "./prompts";
+
+// Small artificial delay so progress UI behaves like it does with a real backend
+const MOCK_LATENCY_MS = 300;
+
+interface MockTransform {
+  dx: number;
+  dy: number;
+  scale: number;
+  /** Radians, clockwise. */
+  rotation: number;
+  /** Horizontal squash used to fake an orbiting viewpoint. */
+  squeeze: number;
+}
+
+/**
+ * Turns the motion between two progress points into a camera-style
+ * transform. Offsets are fractions of the image size.
+ */
+const transformFor = (motion: MotionDescription, progress: number, fromProgress: number = 0): MockTransform => {
+  const to = evaluateMotion(motion, progress);
+  const from = evaluateMotion(motion, fromProgress);
+  const orbitTo = (to.orbit * Math.PI) / 180;
+  const orbitFrom = (from.orbit * Math.PI) / 180;
+  return {
+    dx: to.offsetX - from.offsetX + 0.15 * (Math.sin(orbitTo) - Math.sin(orbitFrom)),
+    dy: to.offsetY - from.offsetY,
+    scale: to.scale / from.scale,
+    rotation: ((to.rotation - from.rotation) * Math.PI) / 180,
+    squeeze: Math.max(0.2, Math.abs(Math.cos(orbitTo))) / Math.max(0.2, Math.abs(Math.cos(orbitFrom))),
+  };
+};
+
+// mulberry32: small and fast, and the same seed always gives the same numbers
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Stands in for sampling noise: a seeded random offset in -0.5..0.5 per
+ * frame, scaled by temperature. Requests without a seed get none, so the
+ * output stays a function of the request.
+ */
+const samplingNoise = (sampling: SamplingParams | undefined, frameIndex: number) => {
+  if (sampling?.seed === undefined) return () => 0;
+  const random = seededRandom(sampling.seed * 31 + frameIndex);
+  return () => (random() - 0.5) * sampling.temperature;
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  return { canvas, ctx };
+};
+
+/**
+ * Synthesizes a frame by transforming the source image. The output depends
+ * only on the request, so the same inputs always give the same frame.
+ */
+const generateFrame = async (request: MotionFrameRequest): Promise<FrameResult> => {
+  await new Promise(r => setTimeout(r, MOCK_LATENCY_MS));
+  if (request.signal?.aborted) throw new Error("Request aborted.");
+
+  const img = await loadImage(request.image);
+  const { width, height } = img;
+  const { canvas, ctx } = createCanvas(width, height);
+  // Chained requests start from the previous frame, so only apply the remaining step
+  const { dx, dy, scale, rotation, squeeze } = transformFor(
+    request.motion,
+    request.progress,
+    request.chained?.previousProgress
+  );
+  const noise = samplingNoise(request.sampling, request.frameIndex);
+
+  // Blurred copy as backdrop so revealed edges aren't empty
+  ctx.filter = 'blur(12px)';
+  ctx.drawImage(img, 0, 0, width, height);
+  ctx.filter = 'none';
+
+  ctx.save();
+  ctx.translate(width / 2 + (dx + 0.05 * noise()) * width, height / 2 + (dy + 0.05 * noise()) * height);
+  ctx.rotate(rotation + 0.1 * noise());
+  const zoom = scale * (1 + 0.05 * noise());
+  ctx.scale(zoom * squeeze, zoom);
+  ctx.drawImage(img, -width / 2, -height / 2, width, height);
+  ctx.restore();
+
+  // Record the prompt a real backend would have received
+  return { imageUrl: canvas.toDataURL('image/png'), promptUsed: buildMotionPrompt(request) };
+};
+
+/**
+ * Crossfades between the keyframes at the requested position.
+ */
+const generateInbetween = async (request: InbetweenFrameRequest): Promise<FrameResult> => {
+  await new Promise(r => setTimeout(r, MOCK_LATENCY_MS));
+  if (request.signal?.aborted) throw new Error("Request aborted.");
+
+  const [start, end] = await Promise.all([loadImage(request.startImage), loadImage(request.endImage)]);
+  const { canvas, ctx } = createCanvas(start.width, start.height);
+  ctx.drawImage(start, 0, 0, start.width, start.height);
+  const noise = samplingNoise(request.sampling, request.frameIndex);
+  ctx.globalAlpha = Math.min(1, Math.max(0, request.progress + 0.2 * noise()));
+  ctx.drawImage(end, 0, 0, start.width, start.height);
+  ctx.globalAlpha = 1;
+
+  return { imageUrl: canvas.toDataURL('image/png'), promptUsed: buildInbetweenPrompt(request) };
+};
+
+/**
+ * Resamples the frame to the requested size class, cropped to the requested aspect ratio.
+ */
+const upscaleFrame = async (image: string, aspectRatio: AspectRatio, size: UpscaleSize): Promise<string> => {
+  await new Promise(r => setTimeout(r, MOCK_LATENCY_MS));
+
+  const img = await loadImage(image);
+  const target = ASPECT_RATIO_VALUES[aspectRatio];
+  let cropWidth = img.width;
+  let cropHeight = img.height;
+  if (img.width / img.height > target) {
+    cropWidth = img.height * target;
+  } else {
+    cropHeight = img.width / target;
+  }
+
+  const scale = UPSCALE_SIZE_PIXELS[size] / Math.max(cropWidth, cropHeight);
+  const { canvas, ctx } = createCanvas(Math.round(cropWidth * scale), Math.round(cropHeight * scale));
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    img,
+    (img.width - cropWidth) / 2,
+    (img.height - cropHeight) / 2,
+    cropWidth,
+    cropHeight,
+    0,
+    0,
+    canvas.width,
+    canvas.height
+  );
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Offline provider for development, demos and tests. Needs no API key and no network.
+ */
+export const mockProvider: MotionProvider = {
+  id: 'mock',
+  name: 'Offline Mock',
+  models: { generation: 'canvas-transform', upscale: 'canvas-resample' },
+  capabilities: {
+    aspectRatios: ["1:1", "3:4", "4:3", "9:16", "16:9"],
+    canUpscale: true,
+    upscaleSizes: ['1K', '2K', '4K'],
+    upscaleCost: { '1K': 0, '2K': 0, '4K': 0 },
+    supportsKeyframes: true,
+    requiresApiKey: false,
+    requiresNetwork: false,
+  },
+  generateFrame,
+  generateInbetween,
+  upscaleFrame,
+};
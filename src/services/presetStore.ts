@@ -0,0 +1,70 @@
+import { PromptTemplate } from '../types';
+import { DEFAULT_PROMPT_TEMPLATE } from './prompts';
+
+const STORAGE_KEY = 'motiongen.promptPresets';
+const EXPORT_VERSION = 1;
+
+// Everything but the frame template can fall back to the default
+const TEMPLATE_FIELDS = ['frame', 'chained', 'inbetween', 'upscale'] as const;
+
+export const createPresetId = () => crypto.randomUUID();
+
+const toPreset = (value: unknown): PromptTemplate | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.name !== 'string' || typeof raw.frame !== 'string') return null;
+  const preset: PromptTemplate = { ...DEFAULT_PROMPT_TEMPLATE, id: typeof raw.id === 'string' ? raw.id : createPresetId(), name: raw.name };
+  delete preset.builtIn;
+  for (const field of TEMPLATE_FIELDS) {
+    if (typeof raw[field] === 'string') preset[field] = raw[field] as string;
+  }
+  return preset;
+};
+
+/** Presets the user saved in this browser. Unreadable entries are skipped. */
+export const loadUserPresets = (): PromptTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.map(toPreset).filter((p): p is PromptTemplate => p !== null) : [];
+  } catch (error) {
+    console.error("Failed to read prompt presets", error);
+    return [];
+  }
+};
+
+/** Returns false when the browser refuses to store them, e.g. when storage is full or blocked. */
+export const saveUserPresets = (presets: PromptTemplate[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+    return true;
+  } catch (error) {
+    console.error("Failed to save prompt presets", error);
+    return false;
+  }
+};
+
+/** Serializes presets into the file format `parsePresets` reads back. */
+export const exportPresets = (presets: PromptTemplate[]): Blob =>
+  new Blob(
+    [JSON.stringify({ version: EXPORT_VERSION, presets: presets.map(({ builtIn, ...preset }) => preset) }, null, 2)],
+    { type: 'application/json' },
+  );
+
+/**
+ * Reads an exported preset file, or a bare array of presets. Imported
+ * presets get fresh ids so they never overwrite existing ones. Throws with
+ * a user-facing message when nothing usable is found.
+ */
+export const parsePresets = (json: string): PromptTemplate[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  const list = Array.isArray(data) ? data : (data as { presets?: unknown })?.presets;
+  if (!Array.isArray(list)) throw new Error("No presets found in this file.");
+  const presets = list.map(toPreset).filter((p): p is PromptTemplate => p !== null);
+  if (presets.length === 0) throw new Error("No valid presets found: each needs at least a name and a frame template.");
+  return presets.map(preset => ({ ...preset, id: createPresetId() }));
+};
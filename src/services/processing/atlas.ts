@@ -0,0 +1,95 @@
+import { PixelFrame, SpriteSheetOptions } from '../../types';
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface AtlasLayout {
+  width: number;
+  height: number;
+  /** Position of each frame's (trimmed) pixels on the sheet, in input order. */
+  placements: Rect[];
+}
+
+/**
+ * Bounding box of the pixels that aren't fully transparent. An empty frame
+ * keeps a single pixel, so every frame still has a region on the sheet.
+ */
+export const trimBounds = (frame: PixelFrame): Rect => {
+  const { width, height, data } = frame;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return { x: 0, y: 0, w: 1, h: 1 };
+  return { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+};
+
+export const nextPowerOfTwo = (value: number) => 2 ** Math.ceil(Math.log2(Math.max(1, value)));
+
+// Equal cells in row-major order, so frame order reads left to right, top to bottom
+const packGrid = (sizes: { w: number; h: number }[], columns: number, padding: number): AtlasLayout => {
+  const cols = Math.min(sizes.length, columns > 0 ? columns : Math.ceil(Math.sqrt(sizes.length)));
+  const rows = Math.ceil(sizes.length / cols);
+  const cellW = Math.max(...sizes.map(s => s.w));
+  const cellH = Math.max(...sizes.map(s => s.h));
+  return {
+    width: cols * cellW + (cols + 1) * padding,
+    height: rows * cellH + (rows + 1) * padding,
+    placements: sizes.map((size, i) => ({
+      x: padding + (i % cols) * (cellW + padding),
+      y: padding + Math.floor(i / cols) * (cellH + padding),
+      ...size,
+    })),
+  };
+};
+
+/**
+ * Shelf packing: frames sorted by height fill rows up to a target width
+ * chosen for a roughly square sheet. Close to optimal for the similar
+ * sizes an animation produces, and predictable.
+ */
+const packShelves = (sizes: { w: number; h: number }[], padding: number, powerOfTwo: boolean): AtlasLayout => {
+  const area = sizes.reduce((sum, s) => sum + (s.w + padding) * (s.h + padding), 0);
+  const widest = Math.max(...sizes.map(s => s.w)) + 2 * padding;
+  let targetWidth = Math.max(widest, Math.ceil(Math.sqrt(area)) + padding);
+  // With power-of-two output, filling the width that will be allocated anyway costs nothing
+  if (powerOfTwo) targetWidth = nextPowerOfTwo(targetWidth);
+
+  const order = sizes.map((_, i) => i).sort((a, b) => sizes[b].h - sizes[a].h || sizes[b].w - sizes[a].w);
+  const placements: Rect[] = new Array(sizes.length);
+  let x = padding, y = padding, shelfHeight = 0, width = 0;
+  for (const i of order) {
+    const { w, h } = sizes[i];
+    if (x + w + padding > targetWidth && x > padding) {
+      y += shelfHeight + padding;
+      x = padding;
+      shelfHeight = 0;
+    }
+    placements[i] = { x, y, w, h };
+    x += w + padding;
+    width = Math.max(width, x);
+    shelfHeight = Math.max(shelfHeight, h);
+  }
+  return { width, height: y + shelfHeight + padding, placements };
+};
+
+/** Lays out frames of the given (trimmed) sizes on a sprite sheet. */
+export const layoutAtlas = (sizes: { w: number; h: number }[], options: SpriteSheetOptions): AtlasLayout => {
+  if (sizes.length === 0) return { width: 0, height: 0, placements: [] };
+  const padding = Math.max(0, Math.round(options.padding));
+  const layout = options.layout === 'grid'
+    ? packGrid(sizes, options.columns, padding)
+    : packShelves(sizes, padding, options.powerOfTwo);
+  if (!options.powerOfTwo) return layout;
+  return { ...layout, width: nextPowerOfTwo(layout.width), height: nextPowerOfTwo(layout.height) };
+};
@@ -0,0 +1,43 @@
+import { PixelFrame } from '../../types';
+
+// Black -> blue -> red -> yellow, on a square-root scale so small changes stay visible
+const heatColor = (difference: number, out: Uint8ClampedArray, offset: number) => {
+  const t = Math.sqrt(difference) * 3;
+  if (t < 1) {
+    out[offset] = 0;
+    out[offset + 1] = 0;
+    out[offset + 2] = t * 255;
+  } else if (t < 2) {
+    out[offset] = (t - 1) * 255;
+    out[offset + 1] = 0;
+    out[offset + 2] = (2 - t) * 255;
+  } else {
+    out[offset] = 255;
+    out[offset + 1] = (t - 2) * 255;
+    out[offset + 2] = 0;
+  }
+  out[offset + 3] = 255;
+};
+
+/**
+ * Per-pixel difference between two equally sized frames, rendered as a
+ * heat map. The difference of a pixel is its largest channel difference;
+ * `meanDifference` averages it over the frame, in 0..1.
+ */
+export const diffHeatmap = (a: PixelFrame, b: PixelFrame): { heatmap: PixelFrame; meanDifference: number } => {
+  const data = new Uint8ClampedArray(a.width * a.height * 4);
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const difference = Math.max(
+      Math.abs(a.data[i] - b.data[i]),
+      Math.abs(a.data[i + 1] - b.data[i + 1]),
+      Math.abs(a.data[i + 2] - b.data[i + 2]),
+    ) / 255;
+    total += difference;
+    heatColor(difference, data, i);
+  }
+  return {
+    heatmap: { width: a.width, height: a.height, data },
+    meanDifference: total / (a.width * a.height),
+  };
+};
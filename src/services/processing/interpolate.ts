@@ -0,0 +1,256 @@
+import { InterpolationMethod, PixelFrame } from '../../types';
+
+/** Longest side of the luma image motion is estimated on. */
+const FLOW_RESOLUTION = 192;
+const BLOCK_SIZE = 8;
+/** Search radius on the half-resolution level, in its pixels. */
+const COARSE_RADIUS = 10;
+/** Refinement radius around the upscaled coarse vector. */
+const FINE_RADIUS = 2;
+// Extra cost per pixel of displacement, so flat areas don't pick up random motion
+const MOTION_PENALTY = 4;
+
+/** One entry of the expanded sequence. */
+export interface InterpolationSlot {
+  /** Index of the source frame, or of the earlier neighbour for interpolated slots. */
+  sourceIndex: number;
+  /** Position between sourceIndex and the next source frame, 0 for source frames. */
+  t: number;
+}
+
+/**
+ * Lays out the expanded sequence: multiplier - 1 new frames between every
+ * pair of consecutive frames that both exist. Shared by the worker and the
+ * UI so both agree on which slots are interpolated.
+ */
+export const interpolationLayout = (present: boolean[], multiplier: number): InterpolationSlot[] => {
+  const slots: InterpolationSlot[] = [];
+  present.forEach((exists, i) => {
+    slots.push({ sourceIndex: i, t: 0 });
+    if (!exists || !present[i + 1]) return;
+    for (let step = 1; step < multiplier; step++) {
+      slots.push({ sourceIndex: i, t: step / multiplier });
+    }
+  });
+  return slots;
+};
+
+/** Linear blend of two equally sized frames. */
+export const crossfade = (a: PixelFrame, b: PixelFrame, t: number): PixelFrame => {
+  const data = new Uint8ClampedArray(a.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = a.data[i] * (1 - t) + b.data[i] * t;
+  }
+  return { width: a.width, height: a.height, data };
+};
+
+interface Luma {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+const toLuma = (frame: PixelFrame, width: number, height: number): Luma => {
+  const data = new Float32Array(width * height);
+  const counts = new Float32Array(width * height);
+  for (let y = 0; y < frame.height; y++) {
+    const ty = Math.min(height - 1, Math.floor((y * height) / frame.height));
+    for (let x = 0; x < frame.width; x++) {
+      const tx = Math.min(width - 1, Math.floor((x * width) / frame.width));
+      const i = (y * frame.width + x) * 4;
+      data[ty * width + tx] += 0.299 * frame.data[i] + 0.587 * frame.data[i + 1] + 0.114 * frame.data[i + 2];
+      counts[ty * width + tx]++;
+    }
+  }
+  for (let i = 0; i < data.length; i++) data[i] /= counts[i] || 1;
+  return { width, height, data };
+};
+
+/** Block motion field from frame a to frame b, in full-resolution pixels. */
+export interface FlowField {
+  columns: number;
+  rows: number;
+  /** Interleaved (dx, dy) per block. */
+  vectors: Float32Array;
+  /** Full-resolution pixels per block. */
+  blockWidth: number;
+  blockHeight: number;
+}
+
+const blockCost = (a: Luma, b: Luma, bx: number, by: number, dx: number, dy: number) => {
+  let cost = 0;
+  for (let y = by; y < by + BLOCK_SIZE; y++) {
+    const sy = Math.min(b.height - 1, Math.max(0, y + dy));
+    for (let x = bx; x < bx + BLOCK_SIZE; x++) {
+      const sx = Math.min(b.width - 1, Math.max(0, x + dx));
+      cost += Math.abs(a.data[y * a.width + x] - b.data[sy * b.width + sx]);
+    }
+  }
+  return cost + MOTION_PENALTY * (Math.abs(dx) + Math.abs(dy));
+};
+
+// Component-wise median of each block's 3x3 neighbourhood, to drop outlier vectors
+const medianFilter = (vectors: Float32Array, columns: number, rows: number) => {
+  const out = new Float32Array(vectors.length);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const median = (values: number[]) => values.sort((p, q) => p - q)[values.length >> 1];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      xs.length = 0;
+      ys.length = 0;
+      for (let nr = Math.max(0, r - 1); nr <= Math.min(rows - 1, r + 1); nr++) {
+        for (let nc = Math.max(0, c - 1); nc <= Math.min(columns - 1, c + 1); nc++) {
+          xs.push(vectors[(nr * columns + nc) * 2]);
+          ys.push(vectors[(nr * columns + nc) * 2 + 1]);
+        }
+      }
+      out[(r * columns + c) * 2] = median(xs);
+      out[(r * columns + c) * 2 + 1] = median(ys);
+    }
+  }
+  return out;
+};
+
+const halve = (luma: Luma): Luma => {
+  const width = Math.max(1, luma.width >> 1);
+  const height = Math.max(1, luma.height >> 1);
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * 2 * luma.width + x * 2;
+      data[y * width + x] = (luma.data[i] + luma.data[i + 1] + luma.data[i + luma.width] + luma.data[i + luma.width + 1]) / 4;
+    }
+  }
+  return { width, height, data };
+};
+
+/**
+ * Block matching of a against b: for each block, the displacement within
+ * `radius` of the guess with the lowest absolute difference.
+ */
+const matchBlocks = (
+  a: Luma,
+  b: Luma,
+  radius: number,
+  guess: (column: number, row: number) => [number, number],
+) => {
+  const columns = Math.max(1, Math.floor(a.width / BLOCK_SIZE));
+  const rows = Math.max(1, Math.floor(a.height / BLOCK_SIZE));
+  const vectors = new Float32Array(columns * rows * 2);
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      const bx = c * BLOCK_SIZE;
+      const by = r * BLOCK_SIZE;
+      const [gx, gy] = guess(c, r);
+      // Staying put is always a candidate, so static areas don't inherit coarse noise
+      let best = { dx: 0, dy: 0, cost: blockCost(a, b, bx, by, 0, 0) };
+      for (let dy = gy - radius; dy <= gy + radius; dy++) {
+        for (let dx = gx - radius; dx <= gx + radius; dx++) {
+          const cost = blockCost(a, b, bx, by, dx, dy);
+          if (cost < best.cost) best = { dx, dy, cost };
+        }
+      }
+      vectors[(r * columns + c) * 2] = best.dx;
+      vectors[(r * columns + c) * 2 + 1] = best.dy;
+    }
+  }
+  return { columns, rows, vectors: medianFilter(vectors, columns, rows) };
+};
+
+/**
+ * Two-level block matching on downscaled luma: a wide search at half
+ * resolution, refined at full flow resolution.
+ */
+export const estimateFlow = (a: PixelFrame, b: PixelFrame): FlowField => {
+  const scale = Math.min(1, FLOW_RESOLUTION / Math.max(a.width, a.height));
+  const width = Math.max(BLOCK_SIZE * 2, Math.round(a.width * scale));
+  const height = Math.max(BLOCK_SIZE * 2, Math.round(a.height * scale));
+  const lumaA = toLuma(a, width, height);
+  const lumaB = toLuma(b, width, height);
+
+  const coarse = matchBlocks(halve(lumaA), halve(lumaB), COARSE_RADIUS, () => [0, 0]);
+  const fine = matchBlocks(lumaA, lumaB, FINE_RADIUS, (c, r) => {
+    const cc = Math.min(coarse.columns - 1, c >> 1);
+    const cr = Math.min(coarse.rows - 1, r >> 1);
+    return [coarse.vectors[(cr * coarse.columns + cc) * 2] * 2, coarse.vectors[(cr * coarse.columns + cc) * 2 + 1] * 2];
+  });
+
+  const vectors = fine.vectors;
+  for (let i = 0; i < vectors.length; i += 2) {
+    vectors[i] *= a.width / width;
+    vectors[i + 1] *= a.height / height;
+  }
+  return {
+    columns: fine.columns,
+    rows: fine.rows,
+    vectors,
+    blockWidth: (BLOCK_SIZE * a.width) / width,
+    blockHeight: (BLOCK_SIZE * a.height) / height,
+  };
+};
+
+// Bilinear interpolation of the block vectors at a full-resolution position
+const flowAt = (flow: FlowField, x: number, y: number): [number, number] => {
+  const gx = Math.min(flow.columns - 1, Math.max(0, x / flow.blockWidth - 0.5));
+  const gy = Math.min(flow.rows - 1, Math.max(0, y / flow.blockHeight - 0.5));
+  const c0 = Math.floor(gx);
+  const r0 = Math.floor(gy);
+  const c1 = Math.min(flow.columns - 1, c0 + 1);
+  const r1 = Math.min(flow.rows - 1, r0 + 1);
+  const fx = gx - c0;
+  const fy = gy - r0;
+  const v = flow.vectors;
+  const at = (r: number, c: number, k: number) => v[(r * flow.columns + c) * 2 + k];
+  const lerp = (k: number) =>
+    (at(r0, c0, k) * (1 - fx) + at(r0, c1, k) * fx) * (1 - fy) + (at(r1, c0, k) * (1 - fx) + at(r1, c1, k) * fx) * fy;
+  return [lerp(0), lerp(1)];
+};
+
+const sampleInto = (frame: PixelFrame, x: number, y: number, out: number[]) => {
+  const cx = Math.min(frame.width - 1, Math.max(0, x));
+  const cy = Math.min(frame.height - 1, Math.max(0, y));
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(frame.width - 1, x0 + 1);
+  const y1 = Math.min(frame.height - 1, y0 + 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+  const d = frame.data;
+  for (let c = 0; c < 4; c++) {
+    const top = d[(y0 * frame.width + x0) * 4 + c] * (1 - fx) + d[(y0 * frame.width + x1) * 4 + c] * fx;
+    const bottom = d[(y1 * frame.width + x0) * 4 + c] * (1 - fx) + d[(y1 * frame.width + x1) * 4 + c] * fx;
+    out[c] = top * (1 - fy) + bottom * fy;
+  }
+};
+
+/**
+ * Motion-compensated in-between at position t: each pixel is fetched from
+ * `a` a fraction t back along the flow and from `b` the rest of the way
+ * forward, then blended.
+ */
+export const warpInterpolate = (a: PixelFrame, b: PixelFrame, flow: FlowField, t: number): PixelFrame => {
+  const data = new Uint8ClampedArray(a.data.length);
+  const fromA = [0, 0, 0, 0];
+  const fromB = [0, 0, 0, 0];
+  for (let y = 0; y < a.height; y++) {
+    for (let x = 0; x < a.width; x++) {
+      const [vx, vy] = flowAt(flow, x, y);
+      sampleInto(a, x - t * vx, y - t * vy, fromA);
+      sampleInto(b, x + (1 - t) * vx, y + (1 - t) * vy, fromB);
+      const i = (y * a.width + x) * 4;
+      for (let c = 0; c < 4; c++) data[i + c] = fromA[c] * (1 - t) + fromB[c] * t;
+    }
+  }
+  return { width: a.width, height: a.height, data };
+};
+
+/**
+ * Synthesizes the in-betweens for one pair of frames at the given positions.
+ */
+export const interpolatePair = (a: PixelFrame, b: PixelFrame, positions: number[], method: InterpolationMethod): PixelFrame[] => {
+  if (method === 'crossfade') return positions.map(t => crossfade(a, b, t));
+  const flow = estimateFlow(a, b);
+  return positions.map(t => warpInterpolate(a, b, flow, t));
+};
@@ -0,0 +1,64 @@
+import { InterpolationOptions, PixelFrame } from '../../types';
+import { interpolatePair, interpolationLayout } from './interpolate';
+import { handleWorkerRequests } from './workerJob';
+
+export interface InterpolateRequest {
+  /** Encoded source frames; missing frames are passed through as null. */
+  frames: (Blob | null)[];
+  options: InterpolationOptions;
+}
+
+/**
+ * Returns the expanded sequence laid out by `interpolationLayout`:
+ * source frames as given, interpolated frames as PNG.
+ */
+handleWorkerRequests<InterpolateRequest>(async ({ frames, options }, progress) => {
+  const size = frames.find((f): f is Blob => f !== null);
+  if (!size) return frames;
+
+  // Everything is processed at the size of the first available frame
+  const firstBitmap = await createImageBitmap(size);
+  const canvas = new OffscreenCanvas(firstBitmap.width, firstBitmap.height);
+  firstBitmap.close();
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const decoded = new Map<number, PixelFrame>();
+  const decode = async (index: number) => {
+    if (!decoded.has(index)) {
+      const bitmap = await createImageBitmap(frames[index]!);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      bitmap.close();
+      decoded.set(index, ctx.getImageData(0, 0, canvas.width, canvas.height));
+      // Only the current pair is needed at a time
+      decoded.delete(index - 2);
+    }
+    return decoded.get(index)!;
+  };
+
+  const slots = interpolationLayout(frames.map(f => f !== null), options.multiplier);
+  const results: (Blob | null)[] = [];
+  let pending: PixelFrame[] = [];
+
+  for (const slot of slots) {
+    if (slot.t === 0) {
+      results.push(frames[slot.sourceIndex]);
+      pending = [];
+      continue;
+    }
+    if (pending.length === 0) {
+      // First in-between of a pair: synthesize all of them at once so the flow is estimated once
+      const positions = slots.filter(s => s.sourceIndex === slot.sourceIndex && s.t > 0).map(s => s.t);
+      pending = interpolatePair(await decode(slot.sourceIndex), await decode(slot.sourceIndex + 1), positions, options.method);
+      progress(slot.sourceIndex + 1, frames.length - 1);
+    }
+    const frame = pending.shift()!;
+    const image = ctx.createImageData(frame.width, frame.height);
+    image.data.set(frame.data);
+    ctx.putImageData(image, 0, 0);
+    results.push(await canvas.convertToBlob({ type: 'image/png' }));
+  }
+
+  return results;
+});
@@ -0,0 +1,283 @@
+import { FrameQuality, PixelFrame, QualityFlag } from '../../types';
+
+/** Side of the square grid frames are scaled to before they are scored. */
+export const ANALYSIS_SIZE = 128;
+
+const SSIM_BLOCK = 8;
+// Stabilizing constants of SSIM for values in 0..1
+const SSIM_C1 = 0.01 ** 2;
+const SSIM_C2 = 0.03 ** 2;
+// Cells of the difference hash: each row compares HASH_SIZE + 1 neighbouring cells
+const HASH_SIZE = 8;
+// Levels per channel of the color histogram
+const HISTOGRAM_LEVELS = 4;
+
+// Largest channel difference (0..1) from the background color at which a pixel is still background
+const FOREGROUND_THRESHOLD = 0.15;
+// Share of border pixels that must match the background color for it to count as plain
+const PLAIN_BACKGROUND = 0.7;
+// Foreground regions smaller than this share of the frame are ignored as noise
+const MIN_REGION = 0.005;
+
+// A frame barely moved when it changed less than this share of the sequence's typical step...
+const STATIC_RATIO = 0.25;
+// ...or less than this mean difference at all
+const STATIC_FLOOR = 0.003;
+// A frame jumped back when it is this much closer to the frame before last than the last step was long
+const BACKWARDS_RATIO = 0.6;
+// Steps shorter than this are too small to tell direction from noise
+const BACKWARDS_MIN_STEP = 0.01;
+// Palette drift is flagged above the limit, or above the floor when it is well above the sequence's typical drift
+const PALETTE_DRIFT_LIMIT = 0.35;
+const PALETTE_DRIFT_FLOOR = 0.15;
+const PALETTE_DRIFT_RATIO = 2.5;
+// A second region at least this share of the subject's size counts as another instance of it
+const DUPLICATE_REGION_RATIO = 0.5;
+// A frame no longer resembles the source when both measures are past these
+const OFF_SOURCE_HASH_DISTANCE = 24;
+const OFF_SOURCE_SSIM = 0.25;
+
+/** What scoring needs from one frame, computed once per frame. */
+export interface FrameSignature {
+  /** Luma per pixel, 0..1. */
+  luma: Float32Array;
+  /** Difference hash, one bit per entry. */
+  hash: Uint8Array;
+  /** Normalized color histogram. */
+  histogram: Float32Array;
+  /** Foreground regions as shares of the frame, largest first; null when the background isn't plain. */
+  regions: number[] | null;
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const lumaOf = (frame: PixelFrame) => {
+  const luma = new Float32Array(frame.width * frame.height);
+  for (let p = 0; p < luma.length; p++) {
+    const i = p * 4;
+    luma[p] = (0.299 * frame.data[i] + 0.587 * frame.data[i + 1] + 0.114 * frame.data[i + 2]) / 255;
+  }
+  return luma;
+};
+
+/**
+ * Difference hash: the luma is averaged into (HASH_SIZE + 1) x HASH_SIZE
+ * cells, and each bit tells whether a cell is brighter than its right-hand
+ * neighbour. Robust to scaling and mild color changes.
+ */
+const differenceHash = (luma: Float32Array, width: number, height: number) => {
+  const columns = HASH_SIZE + 1;
+  const cells = new Float32Array(columns * HASH_SIZE);
+  const counts = new Uint32Array(cells.length);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor((y * HASH_SIZE) / height) * columns;
+    for (let x = 0; x < width; x++) {
+      const cell = row + Math.floor((x * columns) / width);
+      cells[cell] += luma[y * width + x];
+      counts[cell]++;
+    }
+  }
+  const hash = new Uint8Array(HASH_SIZE * HASH_SIZE);
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x++) {
+      const left = y * columns + x;
+      hash[y * HASH_SIZE + x] = cells[left] / counts[left] > cells[left + 1] / counts[left + 1] ? 1 : 0;
+    }
+  }
+  return hash;
+};
+
+const colorHistogram = (frame: PixelFrame) => {
+  const shift = 8 - Math.log2(HISTOGRAM_LEVELS);
+  const histogram = new Float32Array(HISTOGRAM_LEVELS ** 3);
+  const pixels = frame.width * frame.height;
+  for (let i = 0; i < frame.data.length; i += 4) {
+    const bin = ((frame.data[i] >> shift) * HISTOGRAM_LEVELS + (frame.data[i + 1] >> shift)) * HISTOGRAM_LEVELS + (frame.data[i + 2] >> shift);
+    histogram[bin] += 1 / pixels;
+  }
+  return histogram;
+};
+
+const channelDistance = (data: Uint8ClampedArray, i: number, color: number[]) =>
+  Math.max(Math.abs(data[i] - color[0]), Math.abs(data[i + 1] - color[1]), Math.abs(data[i + 2] - color[2])) / 255;
+
+/**
+ * Splits the frame into background and foreground regions. The background
+ * color is the median of the border pixels; frames whose border isn't
+ * mostly that color have no plain background to tell a subject from.
+ */
+const foregroundRegions = (frame: PixelFrame): number[] | null => {
+  const { width, height, data } = frame;
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) border.push(x, (height - 1) * width + x);
+  for (let y = 1; y < height - 1; y++) border.push(y * width, y * width + width - 1);
+
+  const background = [0, 1, 2].map(c => median(border.map(p => data[p * 4 + c])));
+  const plain = border.filter(p => channelDistance(data, p * 4, background) <= FOREGROUND_THRESHOLD).length;
+  if (plain < PLAIN_BACKGROUND * border.length) return null;
+
+  const foreground = new Uint8Array(width * height);
+  for (let p = 0; p < foreground.length; p++) {
+    foreground[p] = channelDistance(data, p * 4, background) > FOREGROUND_THRESHOLD ? 1 : 0;
+  }
+
+  // Flood-fills 4-connected foreground regions, clearing them as it goes
+  const regions: number[] = [];
+  const stack = new Int32Array(foreground.length);
+  for (let start = 0; start < foreground.length; start++) {
+    if (!foreground[start]) continue;
+    let size = 0;
+    let top = 0;
+    stack[top++] = start;
+    foreground[start] = 0;
+    while (top > 0) {
+      const p = stack[--top];
+      size++;
+      const x = p % width;
+      const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+      for (const n of neighbours) {
+        if (n >= 0 && n < foreground.length && foreground[n]) {
+          foreground[n] = 0;
+          stack[top++] = n;
+        }
+      }
+    }
+    const share = size / foreground.length;
+    if (share >= MIN_REGION) regions.push(share);
+  }
+  return regions.sort((a, b) => b - a);
+};
+
+/** Computes the signature of a frame. Frames that are compared must have the same size. */
+export const frameSignature = (frame: PixelFrame): FrameSignature => {
+  const luma = lumaOf(frame);
+  return {
+    luma,
+    hash: differenceHash(luma, frame.width, frame.height),
+    histogram: colorHistogram(frame),
+    regions: foregroundRegions(frame),
+  };
+};
+
+/** Mean structural similarity over SSIM_BLOCK-sized blocks of two luma images. */
+const structuralSimilarity = (a: Float32Array, b: Float32Array, width: number, height: number): number => {
+  let total = 0;
+  let blocks = 0;
+  const n = SSIM_BLOCK * SSIM_BLOCK;
+  for (let by = 0; by + SSIM_BLOCK <= height; by += SSIM_BLOCK) {
+    for (let bx = 0; bx + SSIM_BLOCK <= width; bx += SSIM_BLOCK) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let y = by; y < by + SSIM_BLOCK; y++) {
+        for (let x = bx; x < bx + SSIM_BLOCK; x++) {
+          const va = a[y * width + x];
+          const vb = b[y * width + x];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const cov = sumAB / n - meanA * meanB;
+      total += ((2 * meanA * meanB + SSIM_C1) * (2 * cov + SSIM_C2))
+        / ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+      blocks++;
+    }
+  }
+  return blocks > 0 ? total / blocks : 1;
+};
+
+const meanDifference = (a: Float32Array, b: Float32Array) => {
+  let total = 0;
+  for (let p = 0; p < a.length; p++) total += Math.abs(a[p] - b[p]);
+  return total / a.length;
+};
+
+/** Index of the nearest frame before `index` that is accepted, or -1. */
+const nearestBefore = (index: number, accepted: boolean[]) => {
+  for (let i = index - 1; i >= 0; i--) if (accepted[i]) return i;
+  return -1;
+};
+
+const hashDistance = (a: Uint8Array, b: Uint8Array) => a.reduce((sum, bit, i) => sum + (bit === b[i] ? 0 : 1), 0);
+
+/** One minus the intersection of two normalized histograms. */
+const histogramDistance = (a: Float32Array, b: Float32Array) => {
+  let shared = 0;
+  for (let i = 0; i < a.length; i++) shared += Math.min(a[i], b[i]);
+  return Math.max(0, 1 - shared);
+};
+
+/**
+ * Scores a sequence whose frame 0 is the source. Each frame is compared with
+ * the source and with the available frames before it; thresholds for
+ * motion and palette drift are relative to the sequence's typical values, so
+ * only outliers are flagged. Anchors take part as neighbours but aren't
+ * scored. Missing frames and anchors get null.
+ */
+export const scoreSequence = (
+  signatures: (FrameSignature | null)[],
+  anchors: boolean[],
+  width = ANALYSIS_SIZE,
+  height = ANALYSIS_SIZE,
+): (FrameQuality | null)[] => {
+  const source = signatures[0];
+  if (!source) return signatures.map(() => null);
+
+  const available = signatures.map(Boolean);
+  const scored = signatures.map((signature, i) => i > 0 && Boolean(signature) && !anchors[i]);
+  const steps = signatures.map((signature, i) => (signature && i > 0 ? meanDifference(signature.luma, signatures[nearestBefore(i, available)]!.luma) : 0));
+  const drifts = signatures.map(signature => (signature ? histogramDistance(source.histogram, signature.histogram) : 0));
+  const typicalStep = median(steps.filter((_, i) => scored[i]));
+  const typicalDrift = median(drifts.filter((_, i) => scored[i]));
+
+  // Only a source with one dominant subject can show whether a frame has two
+  const subject = source.regions?.[0] ?? 0;
+  const singleSubject = subject > 0 && (source.regions?.[1] ?? 0) < DUPLICATE_REGION_RATIO * subject;
+
+  const results = signatures.map((signature, i): FrameQuality | null => {
+    if (!signature || !scored[i]) return null;
+    const flags: QualityFlag[] = [];
+    const ssim = structuralSimilarity(source.luma, signature.luma, width, height);
+    const distance = hashDistance(source.hash, signature.hash);
+
+    if (steps[i] < Math.max(STATIC_FLOOR, STATIC_RATIO * typicalStep)) flags.push('static');
+
+    if (drifts[i] > PALETTE_DRIFT_LIMIT || (drifts[i] > PALETTE_DRIFT_FLOOR && drifts[i] > PALETTE_DRIFT_RATIO * typicalDrift)) {
+      flags.push('palette-drift');
+    }
+
+    const second = signature.regions?.[1];
+    if (singleSubject && second !== undefined
+      && second >= DUPLICATE_REGION_RATIO * subject && second >= DUPLICATE_REGION_RATIO * signature.regions![0]) {
+      flags.push('duplicate-subject');
+    }
+
+    if (distance > OFF_SOURCE_HASH_DISTANCE && ssim < OFF_SOURCE_SSIM) flags.push('off-source');
+
+    return { ssim, hashDistance: distance, motion: steps[i], paletteDrift: drifts[i], flags };
+  });
+
+  // Direction is judged against the last two frames that weren't flagged, so
+  // the frame after an outlier isn't blamed for moving away from it
+  const trusted = signatures.map((signature, i) => Boolean(signature) && !results[i]?.flags.length);
+  results.forEach((result, i) => {
+    const last = nearestBefore(i, trusted);
+    const beforeLast = last > 0 ? nearestBefore(last, trusted) : -1;
+    if (!result || beforeLast < 0) return;
+    const step = meanDifference(signatures[last]!.luma, signatures[beforeLast]!.luma);
+    if (step > BACKWARDS_MIN_STEP && meanDifference(signatures[i]!.luma, signatures[beforeLast]!.luma) < BACKWARDS_RATIO * step) {
+      result.flags.push('backwards');
+    }
+  });
+  return results;
+};
@@ -0,0 +1,32 @@
+import { FrameQuality } from '../../types';
+import { ANALYSIS_SIZE, FrameSignature, frameSignature, scoreSequence } from './quality';
+import { handleWorkerRequests } from './workerJob';
+
+export interface QualityRequest {
+  /** Encoded frames; frame 0 is the source. Missing frames are passed as null. */
+  frames: (Blob | null)[];
+  /** Uploaded keyframes, which count as neighbours but aren't scored. */
+  anchors: boolean[];
+}
+
+handleWorkerRequests<QualityRequest, (FrameQuality | null)[]>(async ({ frames, anchors }, progress) => {
+  // Every frame is scored on the same small square grid, whatever its size
+  const ctx = new OffscreenCanvas(ANALYSIS_SIZE, ANALYSIS_SIZE).getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const signatures: (FrameSignature | null)[] = [];
+  for (const blob of frames) {
+    if (!blob) {
+      signatures.push(null);
+      continue;
+    }
+    const bitmap = await createImageBitmap(blob);
+    ctx.clearRect(0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE);
+    ctx.drawImage(bitmap, 0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE);
+    bitmap.close();
+    signatures.push(frameSignature(ctx.getImageData(0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE)));
+    progress(signatures.length, frames.length);
+  }
+
+  return scoreSequence(signatures, anchors);
+});
@@ -0,0 +1,163 @@
+import { LocalUpscaleAlgorithm, PixelFrame } from '../../types';
+
+interface Kernel {
+  /** Support on each side, in source pixels. */
+  radius: number;
+  weight: (x: number) => number;
+}
+
+// Keys' cubic convolution with a = -0.5, the usual "bicubic"
+const cubic = (x: number) => {
+  const t = Math.abs(x);
+  if (t < 1) return 1.5 * t ** 3 - 2.5 * t ** 2 + 1;
+  if (t < 2) return -0.5 * t ** 3 + 2.5 * t ** 2 - 4 * t + 2;
+  return 0;
+};
+
+const sinc = (x: number) => (x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x));
+
+const KERNELS: Record<LocalUpscaleAlgorithm, Kernel> = {
+  bicubic: { radius: 2, weight: cubic },
+  lanczos3: { radius: 3, weight: x => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0) },
+};
+
+interface Taps {
+  /** First source index contributing to each output index. */
+  first: Int32Array;
+  /** Normalized weights, `size` per output index. */
+  weights: Float32Array;
+  size: number;
+}
+
+// Filter taps along one axis; the kernel is only stretched when shrinking
+const computeTaps = (sourceSize: number, targetSize: number, kernel: Kernel): Taps => {
+  const scale = sourceSize / targetSize;
+  const stretch = Math.max(1, scale);
+  const support = kernel.radius * stretch;
+  const size = Math.ceil(support) * 2 + 1;
+  const first = new Int32Array(targetSize);
+  const weights = new Float32Array(targetSize * size);
+
+  for (let i = 0; i < targetSize; i++) {
+    const center = (i + 0.5) * scale - 0.5;
+    const start = Math.floor(center - support) + 1;
+    first[i] = start;
+    let sum = 0;
+    for (let k = 0; k < size; k++) {
+      const w = kernel.weight((start + k - center) / stretch);
+      weights[i * size + k] = w;
+      sum += w;
+    }
+    for (let k = 0; k < size; k++) weights[i * size + k] /= sum || 1;
+  }
+  return { first, weights, size };
+};
+
+/**
+ * Separable resampling to the given size. Source pixels beyond the edges
+ * repeat the border, so there is no dark fringe.
+ */
+export const resample = (frame: PixelFrame, width: number, height: number, algorithm: LocalUpscaleAlgorithm): PixelFrame => {
+  const kernel = KERNELS[algorithm];
+  const horizontal = computeTaps(frame.width, width, kernel);
+  const vertical = computeTaps(frame.height, height, kernel);
+
+  // Horizontal pass into a float buffer of width x source height
+  const rows = new Float32Array(width * frame.height * 4);
+  for (let y = 0; y < frame.height; y++) {
+    const rowOffset = y * frame.width;
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < horizontal.size; k++) {
+        const w = horizontal.weights[x * horizontal.size + k];
+        if (w === 0) continue;
+        const sx = Math.min(frame.width - 1, Math.max(0, horizontal.first[x] + k));
+        const i = (rowOffset + sx) * 4;
+        r += frame.data[i] * w;
+        g += frame.data[i + 1] * w;
+        b += frame.data[i + 2] * w;
+        a += frame.data[i + 3] * w;
+      }
+      const o = (y * width + x) * 4;
+      rows[o] = r;
+      rows[o + 1] = g;
+      rows[o + 2] = b;
+      rows[o + 3] = a;
+    }
+  }
+
+  // Vertical pass; the clamped array takes care of overshoot from negative lobes
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < vertical.size; k++) {
+        const w = vertical.weights[y * vertical.size + k];
+        if (w === 0) continue;
+        const sy = Math.min(frame.height - 1, Math.max(0, vertical.first[y] + k));
+        const i = (sy * width + x) * 4;
+        r += rows[i] * w;
+        g += rows[i + 1] * w;
+        b += rows[i + 2] * w;
+        a += rows[i + 3] * w;
+      }
+      const o = (y * width + x) * 4;
+      data[o] = r;
+      data[o + 1] = g;
+      data[o + 2] = b;
+      data[o + 3] = a;
+    }
+  }
+  return { width, height, data };
+};
+
+// Separable Gaussian blur of the color channels
+const gaussianBlur = (frame: PixelFrame, sigma: number): Float32Array => {
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let sum = 0;
+  for (let k = -radius; k <= radius; k++) {
+    kernel[k + radius] = Math.exp(-(k * k) / (2 * sigma * sigma));
+    sum += kernel[k + radius];
+  }
+  for (let k = 0; k < kernel.length; k++) kernel[k] /= sum;
+
+  const { width, height } = frame;
+  const pass = (source: ArrayLike<number>, dx: number, dy: number) => {
+    const out = new Float32Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let r = 0, g = 0, b = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sx = Math.min(width - 1, Math.max(0, x + k * dx));
+          const sy = Math.min(height - 1, Math.max(0, y + k * dy));
+          const i = (sy * width + sx) * 4;
+          const w = kernel[k + radius];
+          r += source[i] * w;
+          g += source[i + 1] * w;
+          b += source[i + 2] * w;
+        }
+        const o = (y * width + x) * 4;
+        out[o] = r;
+        out[o + 1] = g;
+        out[o + 2] = b;
+      }
+    }
+    return out;
+  };
+  return pass(pass(frame.data, 1, 0), 0, 1);
+};
+
+/**
+ * Unsharp mask in place: adds `amount` times the difference between the
+ * frame and its Gaussian blur. Alpha is left alone.
+ */
+export const unsharpMask = (frame: PixelFrame, amount: number, sigma: number) => {
+  const blurred = gaussianBlur(frame, sigma);
+  const { data } = frame;
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = data[i + c] + amount * (data[i + c] - blurred[i + c]);
+    }
+  }
+};
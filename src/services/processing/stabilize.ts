@@ -0,0 +1,401 @@
+import { MotionState, PixelFrame } from '../../types';
+
+/** Side of the square grid used for registration. Must be a power of two. */
+const GRID_SIZE = 128;
+
+// Background magnification factors tried when estimating rescale
+const SCALE_CANDIDATES = [0.92, 0.95, 0.97, 0.985, 1, 1.015, 1.03, 1.05, 1.08];
+
+export interface Alignment {
+  /** Translation in source pixels to apply after scaling. */
+  dx: number;
+  dy: number;
+  /** How much the frame's background is magnified relative to the reference. */
+  scale: number;
+}
+
+/**
+ * In-place radix-2 FFT over re/im, whose length must be a power of two.
+ */
+const fft = (re: Float64Array, im: Float64Array, inverse: boolean) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const half = len >> 1;
+    const angle = ((inverse ? 2 : -2) * Math.PI) / len;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += len) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const bRe = re[b] * wRe - im[b] * wIm;
+        const bIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - bRe;
+        im[b] = im[a] - bIm;
+        re[a] += bRe;
+        im[a] += bIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+};
+
+const fft2d = (re: Float64Array, im: Float64Array, size: number, inverse: boolean) => {
+  const rowRe = new Float64Array(size);
+  const rowIm = new Float64Array(size);
+  for (let y = 0; y < size; y++) {
+    rowRe.set(re.subarray(y * size, (y + 1) * size));
+    rowIm.set(im.subarray(y * size, (y + 1) * size));
+    fft(rowRe, rowIm, inverse);
+    re.set(rowRe, y * size);
+    im.set(rowIm, y * size);
+  }
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      rowRe[y] = re[y * size + x];
+      rowIm[y] = im[y * size + x];
+    }
+    fft(rowRe, rowIm, inverse);
+    for (let y = 0; y < size; y++) {
+      re[y * size + x] = rowRe[y];
+      im[y * size + x] = rowIm[y];
+    }
+  }
+};
+
+interface LumaImage {
+  width: number;
+  height: number;
+  data: Float64Array;
+}
+
+/**
+ * Box-filters the frame's luma down to the given size, so registration
+ * isn't thrown off by aliasing or fine texture the model re-imagined.
+ */
+const downsampleLuma = (frame: PixelFrame, width: number, height: number): LumaImage => {
+  const sums = new Float64Array(width * height);
+  const counts = new Float64Array(width * height);
+  for (let y = 0; y < frame.height; y++) {
+    const ty = Math.min(height - 1, Math.floor((y * height) / frame.height));
+    for (let x = 0; x < frame.width; x++) {
+      const tx = Math.min(width - 1, Math.floor((x * width) / frame.width));
+      const i = (y * frame.width + x) * 4;
+      sums[ty * width + tx] += 0.299 * frame.data[i] + 0.587 * frame.data[i + 1] + 0.114 * frame.data[i + 2];
+      counts[ty * width + tx]++;
+    }
+  }
+  for (let i = 0; i < sums.length; i++) sums[i] /= counts[i] || 1;
+  return { width, height, data: sums };
+};
+
+const sampleBilinear = (img: LumaImage, x: number, y: number) => {
+  const cx = Math.min(img.width - 1, Math.max(0, x));
+  const cy = Math.min(img.height - 1, Math.max(0, y));
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(img.width - 1, x0 + 1);
+  const y1 = Math.min(img.height - 1, y0 + 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+  const top = img.data[y0 * img.width + x0] * (1 - fx) + img.data[y0 * img.width + x1] * fx;
+  const bottom = img.data[y1 * img.width + x0] * (1 - fx) + img.data[y1 * img.width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+};
+
+/**
+ * Samples the luma onto the registration grid, magnified by `scale` about
+ * the center and tapered with a Hann window to suppress edge effects.
+ */
+const toGrid = (luma: LumaImage, scale: number): Float64Array => {
+  const grid = new Float64Array(GRID_SIZE * GRID_SIZE);
+  const center = GRID_SIZE / 2;
+  const ratioX = luma.width / GRID_SIZE;
+  const ratioY = luma.height / GRID_SIZE;
+  let mean = 0;
+  for (let v = 0; v < GRID_SIZE; v++) {
+    for (let u = 0; u < GRID_SIZE; u++) {
+      const sx = (center + (u + 0.5 - center) * scale) * ratioX - 0.5;
+      const sy = (center + (v + 0.5 - center) * scale) * ratioY - 0.5;
+      const value = sampleBilinear(luma, sx, sy);
+      grid[v * GRID_SIZE + u] = value;
+      mean += value;
+    }
+  }
+  mean /= grid.length;
+  for (let v = 0; v < GRID_SIZE; v++) {
+    const wy = 0.5 - 0.5 * Math.cos((2 * Math.PI * v) / (GRID_SIZE - 1));
+    for (let u = 0; u < GRID_SIZE; u++) {
+      const wx = 0.5 - 0.5 * Math.cos((2 * Math.PI * u) / (GRID_SIZE - 1));
+      grid[v * GRID_SIZE + u] = (grid[v * GRID_SIZE + u] - mean) * wx * wy;
+    }
+  }
+  return grid;
+};
+
+interface Spectrum {
+  re: Float64Array;
+  im: Float64Array;
+}
+
+const spectrumOf = (grid: Float64Array): Spectrum => {
+  const re = Float64Array.from(grid);
+  const im = new Float64Array(grid.length);
+  fft2d(re, im, GRID_SIZE, false);
+  return { re, im };
+};
+
+// Offset of the parabola's vertex through three samples around a peak
+const subpixel = (left: number, center: number, right: number) => {
+  const denom = left - 2 * center + right;
+  return denom === 0 ? 0 : Math.max(-0.5, Math.min(0.5, (left - right) / (2 * denom)));
+};
+
+/**
+ * Phase correlation: returns how far `target` is shifted relative to the
+ * reference, in grid cells, and the peak strength (higher is a better match).
+ */
+const phaseCorrelate = (reference: Spectrum, target: Spectrum) => {
+  const n = GRID_SIZE * GRID_SIZE;
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    // target * conj(reference), normalized to unit magnitude
+    const r = target.re[i] * reference.re[i] + target.im[i] * reference.im[i];
+    const j = target.im[i] * reference.re[i] - target.re[i] * reference.im[i];
+    const magnitude = Math.hypot(r, j) || 1;
+    re[i] = r / magnitude;
+    im[i] = j / magnitude;
+  }
+  fft2d(re, im, GRID_SIZE, true);
+
+  let peak = 0;
+  for (let i = 1; i < n; i++) if (re[i] > re[peak]) peak = i;
+  const px = peak % GRID_SIZE;
+  const py = Math.floor(peak / GRID_SIZE);
+  const at = (x: number, y: number) =>
+    re[((y + GRID_SIZE) % GRID_SIZE) * GRID_SIZE + ((x + GRID_SIZE) % GRID_SIZE)];
+
+  const wrap = (v: number) => (v > GRID_SIZE / 2 ? v - GRID_SIZE : v);
+  return {
+    dx: wrap(px) + subpixel(at(px - 1, py), re[peak], at(px + 1, py)),
+    dy: wrap(py) + subpixel(at(px, py - 1), re[peak], at(px, py + 1)),
+    strength: re[peak],
+  };
+};
+
+/** Precomputed reference data, reused across every frame of a sequence. */
+export interface RegistrationReference {
+  width: number;
+  height: number;
+  spectrum: Spectrum;
+}
+
+// Twice the grid resolution leaves headroom for resampling at the candidate scales
+const lumaFor = (frame: PixelFrame) =>
+  downsampleLuma(frame, Math.min(frame.width, GRID_SIZE * 2), Math.min(frame.height, GRID_SIZE * 2));
+
+export const prepareReference = (frame: PixelFrame): RegistrationReference => ({
+  width: frame.width,
+  height: frame.height,
+  spectrum: spectrumOf(toGrid(lumaFor(frame), 1)),
+});
+
+/**
+ * Estimates the scale and translation that bring the frame's background
+ * back onto the reference. Frames must share the reference's dimensions.
+ */
+export const estimateAlignment = (reference: RegistrationReference, frame: PixelFrame): Alignment => {
+  const luma = lumaFor(frame);
+  let best = { scale: 1, dx: 0, dy: 0, strength: -Infinity };
+  for (const scale of SCALE_CANDIDATES) {
+    const match = phaseCorrelate(reference.spectrum, spectrumOf(toGrid(luma, scale)));
+    if (match.strength > best.strength) best = { scale, ...match };
+  }
+  return {
+    scale: best.scale,
+    dx: (best.dx * reference.width) / GRID_SIZE,
+    dy: (best.dy * reference.height) / GRID_SIZE,
+  };
+};
+
+/**
+ * Canvas transform (a, b, c, d, e, f) that draws the frame aligned onto the
+ * reference: output(u) = frame(center + (u + shift - center) * scale).
+ */
+export const alignmentTransform = (alignment: Alignment, width: number, height: number): [number, number, number, number, number, number] => {
+  const s = 1 / alignment.scale;
+  const cx = width / 2;
+  const cy = height / 2;
+  return [s, 0, 0, s, cx - alignment.dx - cx * s, cy - alignment.dy - cy * s];
+};
+
+const channelStats = (data: Uint8ClampedArray, step: number) => {
+  const sum = [0, 0, 0];
+  const sumSq = [0, 0, 0];
+  let count = 0;
+  for (let i = 0; i < data.length; i += 4 * step) {
+    for (let c = 0; c < 3; c++) {
+      sum[c] += data[i + c];
+      sumSq[c] += data[i + c] * data[i + c];
+    }
+    count++;
+  }
+  const mean = sum.map(s => s / count);
+  const std = sumSq.map((s, c) => Math.sqrt(Math.max(0, s / count - mean[c] * mean[c])));
+  return { mean, std };
+};
+
+/**
+ * Matches each channel's mean and contrast to the reference, removing the
+ * exposure and tint drift between generated frames. Modifies `frame` in place.
+ */
+export const normalizeColor = (frame: PixelFrame, reference: PixelFrame) => {
+  const step = Math.max(1, Math.floor((frame.width * frame.height) / 65536));
+  const source = channelStats(frame.data, step);
+  const target = channelStats(reference.data, step);
+  // Clamp the gain so a frame that legitimately changed content isn't blown out
+  const gain = [0, 1, 2].map(c => Math.min(2, Math.max(0.5, target.std[c] / (source.std[c] || 1))));
+
+  const { data } = frame;
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = (data[i + c] - source.mean[c]) * gain[c] + target.mean[c];
+    }
+  }
+};
+
+// Separable box blur over a single-channel mask
+const boxBlur = (mask: Float32Array, width: number, height: number, radius: number) => {
+  if (radius < 1) return mask;
+  const temp = new Float32Array(mask.length);
+  const out = new Float32Array(mask.length);
+  const size = radius * 2 + 1;
+  for (let y = 0; y < height; y++) {
+    let acc = 0;
+    for (let x = -radius; x <= radius; x++) acc += mask[y * width + Math.min(width - 1, Math.max(0, x))];
+    for (let x = 0; x < width; x++) {
+      temp[y * width + x] = acc / size;
+      acc += mask[y * width + Math.min(width - 1, x + radius + 1)] - mask[y * width + Math.max(0, x - radius)];
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    let acc = 0;
+    for (let y = -radius; y <= radius; y++) acc += temp[Math.min(height - 1, Math.max(0, y)) * width + x];
+    for (let y = 0; y < height; y++) {
+      out[y * width + x] = acc / size;
+      acc += temp[Math.min(height - 1, y + radius + 1) * width + x] - temp[Math.max(0, y - radius) * width + x];
+    }
+  }
+  return out;
+};
+
+// Keeps the frame where the mask is set and the reference elsewhere. Blurring first
+// grows the region over isolated gaps, the second pass feathers its edge.
+const blendOverReference = (frame: PixelFrame, reference: PixelFrame, mask: Float32Array) => {
+  const { width, height, data } = frame;
+  const ref = reference.data;
+  const radius = Math.max(1, Math.round(Math.max(width, height) * 0.01));
+  const grown = boxBlur(mask, width, height, radius);
+  for (let p = 0; p < grown.length; p++) grown[p] = Math.min(1, grown[p] * 3);
+  const soft = boxBlur(grown, width, height, radius);
+
+  for (let p = 0, i = 0; p < soft.length; p++, i += 4) {
+    const m = soft[p];
+    for (let c = 0; c < 3; c++) data[i + c] = data[i + c] * m + ref[i + c] * (1 - m);
+  }
+};
+
+/**
+ * Copies the reference back wherever the frame barely differs from it, so
+ * only the moving subject comes from the generated frame. `threshold` is the
+ * luma difference (0..1) below which a pixel counts as background. Modifies
+ * `frame` in place.
+ */
+export const lockBackground = (frame: PixelFrame, reference: PixelFrame, threshold: number) => {
+  const { data } = frame;
+  const ref = reference.data;
+  const mask = new Float32Array(frame.width * frame.height);
+  const cutoff = threshold * 255;
+  for (let p = 0, i = 0; p < mask.length; p++, i += 4) {
+    const diff = Math.abs(
+      0.299 * (data[i] - ref[i]) + 0.587 * (data[i + 1] - ref[i + 1]) + 0.114 * (data[i + 2] - ref[i + 2])
+    );
+    mask[p] = diff > cutoff ? 1 : 0;
+  }
+  blendOverReference(frame, reference, mask);
+};
+
+/** Mask coverage (0..1) per pixel, read from the red channel of a white-on-black mask. */
+export const maskCoverage = (mask: PixelFrame): Float32Array => {
+  const coverage = new Float32Array(mask.width * mask.height);
+  for (let p = 0; p < coverage.length; p++) coverage[p] = (mask.data[p * 4] / 255) * (mask.data[p * 4 + 3] / 255);
+  return coverage;
+};
+
+/** Coverage-weighted center of a mask in pixels, or null when it is empty. */
+export const maskCenter = (coverage: Float32Array, width: number): { x: number; y: number } | null => {
+  let total = 0, sx = 0, sy = 0;
+  for (let p = 0; p < coverage.length; p++) {
+    const m = coverage[p];
+    if (m === 0) continue;
+    total += m;
+    sx += (p % width) * m;
+    sy += Math.floor(p / width) * m;
+  }
+  return total > 0 ? { x: sx / total, y: sy / total } : null;
+};
+
+/**
+ * Canvas transform (a, b, c, d, e, f) that moves the subject mask to where
+ * the motion puts it: scaled and rotated about its center, then shifted.
+ * The orbit can't be expressed as a 2D transform and is left out.
+ */
+export const subjectTransform = (
+  state: MotionState,
+  center: { x: number; y: number },
+  width: number,
+  height: number,
+): [number, number, number, number, number, number] => {
+  const angle = (state.rotation * Math.PI) / 180;
+  const a = state.scale * Math.cos(angle);
+  const b = state.scale * Math.sin(angle);
+  const tx = center.x + state.offsetX * width;
+  const ty = center.y + state.offsetY * height;
+  return [a, b, -b, a, tx - (a * center.x - b * center.y), ty - (b * center.x + a * center.y)];
+};
+
+/**
+ * Keeps the subject from the generated frame and takes the rest from the
+ * reference. `subject` is the coverage of both where the subject was and
+ * where it moved to, so the area it uncovered comes from the frame too.
+ * Modifies `frame` in place.
+ */
+export const compositeSubject = (frame: PixelFrame, reference: PixelFrame, subject: Float32Array) => {
+  const { width, height } = frame;
+  // The model never follows the motion exactly, so leave a generous margin around the predicted subject
+  const margin = boxBlur(subject, width, height, Math.round(Math.max(width, height) * 0.03));
+  for (let p = 0; p < margin.length; p++) margin[p] = margin[p] > 0.01 ? 1 : 0;
+  blendOverReference(frame, reference, margin);
+};
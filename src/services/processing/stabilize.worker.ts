@@ -0,0 +1,107 @@
+import { MotionState, StabilizationOptions } from '../../types';
+import {
+  alignmentTransform, compositeSubject, estimateAlignment, lockBackground, maskCenter, maskCoverage, normalizeColor,
+  prepareReference, subjectTransform,
+} from './stabilize';
+import { handleWorkerRequests } from './workerJob';
+
+export interface StabilizeRequest {
+  /** Encoded frames; frame 0 is the reference. Missing frames are passed through as null. */
+  frames: (Blob | null)[];
+  options: StabilizationOptions;
+  /** Used when options.compositeSubject is set. */
+  subject?: {
+    /** White-on-black mask of the subject in frame 0. */
+    mask: Blob;
+    /** Motion of each frame relative to frame 0; null for frames that are left as they are. */
+    motion: (MotionState | null)[];
+  };
+}
+
+/**
+ * Decodes the subject mask at the given size. The returned function gives
+ * the coverage of the subject both where it started and where a frame's
+ * motion moved it; null when the mask is empty.
+ */
+const prepareSubjectMask = async (mask: Blob, width: number, height: number) => {
+  const bitmap = await createImageBitmap(mask);
+  const source = new OffscreenCanvas(width, height);
+  const sourceCtx = source.getContext('2d', { willReadFrequently: true });
+  const ctx = new OffscreenCanvas(width, height).getContext('2d', { willReadFrequently: true });
+  if (!sourceCtx || !ctx) throw new Error("Could not get canvas context");
+  sourceCtx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const coverage = maskCoverage(sourceCtx.getImageData(0, 0, width, height));
+  const center = maskCenter(coverage, width);
+  if (!center) return null;
+
+  return (motion: MotionState) => {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.setTransform(...subjectTransform(motion, center, width, height));
+    ctx.drawImage(source, 0, 0);
+    const moved = maskCoverage(ctx.getImageData(0, 0, width, height));
+    for (let p = 0; p < moved.length; p++) moved[p] = Math.max(moved[p], coverage[p]);
+    return moved;
+  };
+};
+
+handleWorkerRequests<StabilizeRequest>(async ({ frames, options, subject }, progress) => {
+  const [first, ...rest] = frames;
+  if (!first) throw new Error("The reference frame is missing.");
+
+  const firstBitmap = await createImageBitmap(first);
+  const { width, height } = firstBitmap;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(firstBitmap, 0, 0);
+  firstBitmap.close();
+
+  const reference = ctx.getImageData(0, 0, width, height);
+  const registration = options.align ? prepareReference(reference) : null;
+  const results: (Blob | null)[] = [first];
+
+  const subjectAt = options.compositeSubject && subject ? await prepareSubjectMask(subject.mask, width, height) : null;
+
+  for (const [offset, blob] of rest.entries()) {
+    if (!blob) {
+      results.push(null);
+      continue;
+    }
+
+    // Every frame is processed at the reference's size
+    const bitmap = await createImageBitmap(blob);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    if (registration) {
+      const alignment = estimateAlignment(registration, ctx.getImageData(0, 0, width, height));
+      // Edges uncovered by the shift fall back to the reference
+      ctx.putImageData(reference, 0, 0);
+      ctx.setTransform(...alignmentTransform(alignment, width, height));
+      ctx.drawImage(bitmap, 0, 0, width, height);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+    }
+    bitmap.close();
+
+    const motion = subjectAt && subject?.motion[offset + 1];
+    if (options.normalizeColor || options.lockBackground || motion) {
+      const pixels = ctx.getImageData(0, 0, width, height);
+      if (options.normalizeColor) normalizeColor(pixels, reference);
+      // The mask gives a better subject region than the difference test, so it takes precedence
+      if (subjectAt && motion) {
+        compositeSubject(pixels, reference, subjectAt(motion));
+      } else if (options.lockBackground) {
+        lockBackground(pixels, reference, options.backgroundThreshold);
+      }
+      ctx.putImageData(pixels, 0, 0);
+    }
+
+    results.push(await canvas.convertToBlob({ type: 'image/png' }));
+    progress(results.length, frames.length);
+  }
+
+  return results;
+});
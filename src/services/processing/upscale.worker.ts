@@ -0,0 +1,48 @@
+import { LocalUpscaleOptions } from '../../types';
+import { resample, unsharpMask } from './resample';
+import { handleWorkerRequests } from './workerJob';
+
+export interface UpscaleRequest {
+  /** Encoded frames; missing frames are passed through as null. */
+  frames: (Blob | null)[];
+  options: LocalUpscaleOptions;
+}
+
+handleWorkerRequests<UpscaleRequest>(async ({ frames, options }, progress) => {
+  const results: (Blob | null)[] = [];
+
+  for (const blob of frames) {
+    if (!blob) {
+      results.push(null);
+      continue;
+    }
+
+    const bitmap = await createImageBitmap(blob);
+    const source = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const sourceCtx = source.getContext('2d', { willReadFrequently: true });
+    if (!sourceCtx) throw new Error("Could not get canvas context");
+    sourceCtx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const upscaled = resample(
+      sourceCtx.getImageData(0, 0, source.width, source.height),
+      source.width * options.factor,
+      source.height * options.factor,
+      options.algorithm,
+    );
+    // Sharpen at roughly the scale of one source pixel
+    if (options.sharpen > 0) unsharpMask(upscaled, options.sharpen, options.factor / 2);
+
+    const canvas = new OffscreenCanvas(upscaled.width, upscaled.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context");
+    const imageData = ctx.createImageData(upscaled.width, upscaled.height);
+    imageData.data.set(upscaled.data);
+    ctx.putImageData(imageData, 0, 0);
+
+    results.push(await canvas.convertToBlob({ type: 'image/png' }));
+    progress(results.length, frames.length);
+  }
+
+  return results;
+});
@@ -0,0 +1,65 @@
+/** Encoded frames, the result of most processing workers. */
+type FrameResults = (Blob | null)[];
+
+/** Messages every processing worker sends back while handling a request. */
+export type ProcessingResponse<Result = FrameResults> =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'done'; result: Result }
+  | { type: 'error'; message: string };
+
+/**
+ * Posts a request to a freshly created worker and resolves with the result
+ * it sends back, usually frames. The worker is terminated when the job ends
+ * or is aborted.
+ */
+export const runWorkerJob = <Request, Result = FrameResults>(
+  worker: Worker,
+  request: Request,
+  onProgress?: (completed: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<Result> => new Promise((resolve, reject) => {
+  const finish = () => {
+    worker.terminate();
+    signal?.removeEventListener('abort', onAbort);
+  };
+  const onAbort = () => {
+    finish();
+    reject(new DOMException("Processing was cancelled.", 'AbortError'));
+  };
+  if (signal?.aborted) return onAbort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  worker.onmessage = (event: MessageEvent<ProcessingResponse<Result>>) => {
+    const message = event.data;
+    if (message.type === 'progress') {
+      onProgress?.(message.completed, message.total);
+    } else if (message.type === 'done') {
+      finish();
+      resolve(message.result);
+    } else {
+      finish();
+      reject(new Error(message.message));
+    }
+  };
+  worker.onerror = (event) => {
+    finish();
+    reject(new Error(event.message || "Processing worker failed"));
+  };
+
+  worker.postMessage(request);
+});
+
+/**
+ * Worker side: runs the handler for each request and reports its outcome.
+ */
+export const handleWorkerRequests = <Request, Result = FrameResults>(
+  handler: (request: Request, progress: (completed: number, total: number) => void) => Promise<Result>,
+) => {
+  const respond = (message: ProcessingResponse<Result>) => self.postMessage(message);
+  self.onmessage = (event: MessageEvent<Request>) => {
+    handler(event.data, (completed, total) => respond({ type: 'progress', completed, total }))
+      .then(result => respond({ type: 'done', result }))
+      .catch(error => respond({ type: 'error', message: error instanceof Error ? error.message : String(error) }));
+  };
+};
+
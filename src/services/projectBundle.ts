@@ -0,0 +1,277 @@
+import JSZip from 'jszip';
+import { FrameJobState, FrameJobStatus, GeneratedFrame, PlaybackSettings, ProjectBundle, RunSettings, SamplingParams, SequenceState, UpscaleVariant } from '../types';
+import { IMAGE_EXTENSIONS, parseDataUrl } from '../utils/imageUtils';
+import { createFrameId } from '../utils/frames';
+import { EASING_OPTIONS } from '../utils/easing';
+
+export const BUNDLE_EXTENSION = '.motiongen';
+
+const BUNDLE_FORMAT = 'motiongen-project';
+/** Version of the manifest this build writes. Bump it and add a migration whenever the manifest changes. */
+export const BUNDLE_VERSION = 1;
+const MANIFEST_FILE = 'project.json';
+
+// Frames and history entries point at image files in the archive instead of embedding data URLs
+interface BundleFrame {
+  id: number;
+  image: string | null;
+  upscales?: Partial<Record<UpscaleVariant, string>>;
+  promptUsed: string;
+  anchor?: GeneratedFrame['anchor'];
+  hold?: number;
+  sampling?: SamplingParams;
+  progress?: number;
+}
+
+interface BundleSequence {
+  frames: BundleFrame[];
+  frameStates: FrameJobState[];
+}
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: { id: string; name: string; createdAt: number; updatedAt: number };
+  settings: RunSettings;
+  playback?: PlaybackSettings;
+  images: { source: string; end?: string; subjectMask?: string };
+  frames: BundleFrame[];
+  history: { undo: BundleSequence[]; redo: BundleSequence[] };
+}
+
+/**
+ * Upgrades a manifest from the keyed version to the next one. Reading runs
+ * every step from the file's version up to BUNDLE_VERSION, so each step only
+ * has to know its own change, e.g. `1: manifest => ({ ...manifest, version: 2, ... })`.
+ */
+const MIGRATIONS: Record<number, (manifest: Record<string, unknown>) => Record<string, unknown>> = {};
+
+const invalid = (detail: string) => new Error(`This project file is invalid: ${detail}.`);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const FRAME_JOB_STATUSES: FrameJobStatus[] = ['pending', 'running', 'done', 'failed'];
+const MOTION_FIELDS = ['translateX', 'translateY', 'zoom', 'rotation', 'orbit'];
+
+const isMotion = (value: unknown) => isObject(value) && MOTION_FIELDS.every(field => isNumber(value[field]))
+  && isOptional(value.path, path => Array.isArray(path) && path.every(point => isObject(point) && isNumber(point.x) && isNumber(point.y)));
+
+const isEasing = (value: unknown) => isObject(value) && EASING_OPTIONS.some(option => option.id === value.type)
+  && isOptional(value.bezier, bezier => Array.isArray(bezier) && bezier.length === 4 && bezier.every(isNumber));
+
+const checkFrame = (value: unknown, where: string): BundleFrame => {
+  if (!isObject(value) || !isNumber(value.id) || !isString(value.promptUsed) || !(value.image === null || isString(value.image))) {
+    throw invalid(`${where} needs an id, an image path or null, and a prompt`);
+  }
+  if (!isOptional(value.anchor, anchor => anchor === 'start' || anchor === 'end') || !isOptional(value.hold, isNumber)
+    || !isOptional(value.upscales, upscales => isObject(upscales) && Object.values(upscales).every(isString))
+    || !isOptional(value.sampling, sampling => isObject(sampling) && isNumber(sampling.temperature))
+    || !isOptional(value.progress, isNumber)) {
+    throw invalid(`${where} has a malformed anchor, hold, upscale, sampling or progress entry`);
+  }
+  return value as unknown as BundleFrame;
+};
+
+const checkSequence = (value: unknown, where: string): BundleSequence => {
+  if (!isObject(value) || !Array.isArray(value.frames) || !Array.isArray(value.frameStates)) {
+    throw invalid(`${where} needs frames and frame states`);
+  }
+  if (value.frames.length !== value.frameStates.length) {
+    throw invalid(`${where} has frame states that don't match its frames`);
+  }
+  if (!value.frameStates.every(state => isObject(state) && FRAME_JOB_STATUSES.includes(state.status as FrameJobStatus) && isNumber(state.attempts))) {
+    throw invalid(`${where} has a frame state with an unknown status`);
+  }
+  value.frames.forEach((frame, i) => checkFrame(frame, `${where}, frame ${i}`));
+  return value as unknown as BundleSequence;
+};
+
+const checkSettings = (value: unknown): RunSettings => {
+  const timing = isObject(value) ? value.timing : undefined;
+  if (!isObject(value) || !isString(value.providerId) || !isString(value.description)
+    || !isObject(timing) || !isNumber(timing.frameCount) || timing.frameCount < 1 || !isNumber(timing.fps) || timing.fps <= 0
+    || (value.mode !== 'parallel' && value.mode !== 'chained') || typeof value.useReference !== 'boolean') {
+    throw invalid("the run settings are incomplete");
+  }
+  if (!isMotion(value.motion) || !isEasing(timing.easing)) {
+    throw invalid("the motion or easing settings are malformed");
+  }
+  if (!isOptional(value.promptTemplate, template => isObject(template) && isString(template.id) && isString(template.frame))
+    || !isOptional(value.sampling, sampling => isObject(sampling) && isNumber(sampling.temperature))
+    || !isOptional(value.models, models => isObject(models) && isString(models.generation))) {
+    throw invalid("the run settings have a malformed template, sampling or model entry");
+  }
+  return value as unknown as RunSettings;
+};
+
+/** Checks the shape of a manifest that has been migrated to the current version. */
+const checkManifest = (value: Record<string, unknown>): BundleManifest => {
+  const { project, images, history } = value;
+  if (!isObject(project) || !isString(project.id) || !isString(project.name) || !isNumber(project.createdAt) || !isNumber(project.updatedAt)) {
+    throw invalid("the project entry needs an id, a name and timestamps");
+  }
+  if (!isObject(images) || !isString(images.source) || !isOptional(images.end, isString) || !isOptional(images.subjectMask, isString)) {
+    throw invalid("the source image is missing");
+  }
+  checkSettings(value.settings);
+  if (!isOptional(value.playback, playback => isObject(playback) && isString(playback.mode) && isNumber(playback.speed))) {
+    throw invalid("the playback settings are malformed");
+  }
+  if (!Array.isArray(value.frames) || value.frames.length === 0) throw invalid("it has no frames");
+  value.frames.forEach((frame, i) => checkFrame(frame, `frame ${i}`));
+  if (!isObject(history) || !Array.isArray(history.undo) || !Array.isArray(history.redo)) throw invalid("the edit history is missing");
+  history.undo.forEach((entry, i) => checkSequence(entry, `undo step ${i + 1}`));
+  history.redo.forEach((entry, i) => checkSequence(entry, `redo step ${i + 1}`));
+  return value as unknown as BundleManifest;
+};
+
+/** Brings a manifest of any supported version up to BUNDLE_VERSION. */
+const migrateManifest = (data: unknown): Record<string, unknown> => {
+  if (!isObject(data) || data.format !== BUNDLE_FORMAT) throw new Error("This file is not a MotionGen project.");
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) throw invalid("its version is missing");
+  if ((data.version as number) > BUNDLE_VERSION) {
+    throw new Error("This project was saved by a newer version of MotionGen. Update the app to open it.");
+  }
+  let manifest = data;
+  for (let version = data.version as number; version < BUNDLE_VERSION; version++) {
+    manifest = MIGRATIONS[version](manifest);
+  }
+  return manifest;
+};
+
+/**
+ * Packs a project, its edit history and every image it references into a
+ * ZIP with a JSON manifest. Images are stored once, however many frames and
+ * history steps share them.
+ */
+export const exportProjectBundle = async (bundle: ProjectBundle): Promise<Blob> => {
+  const zip = new JSZip();
+  const paths = new Map<string, string>();
+  const addImage = (dataUrl: string) => {
+    let path = paths.get(dataUrl);
+    if (!path) {
+      const { mimeType, data } = parseDataUrl(dataUrl);
+      path = `images/${String(paths.size + 1).padStart(4, '0')}.${IMAGE_EXTENSIONS[mimeType] ?? 'png'}`;
+      zip.file(path, data, { base64: true });
+      paths.set(dataUrl, path);
+    }
+    return path;
+  };
+
+  const toBundleFrame = (frame: GeneratedFrame): BundleFrame => ({
+    id: frame.id,
+    image: frame.imageUrl ? addImage(frame.imageUrl) : null,
+    upscales: frame.upscales && Object.fromEntries(Object.entries(frame.upscales).map(([variant, url]) => [variant, addImage(url!)])),
+    promptUsed: frame.promptUsed,
+    anchor: frame.anchor,
+    hold: frame.hold,
+    sampling: frame.sampling,
+    progress: frame.progress,
+  });
+  const toBundleSequence = (sequence: SequenceState): BundleSequence => ({
+    frames: sequence.frames.map(toBundleFrame),
+    frameStates: sequence.frameStates,
+  });
+
+  const { project } = bundle;
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { id: project.id, name: project.name, createdAt: project.createdAt, updatedAt: project.updatedAt },
+    settings: project.settings,
+    playback: project.playback,
+    images: {
+      source: addImage(project.sourceImage),
+      end: project.endImage && addImage(project.endImage),
+      subjectMask: project.subjectMask && addImage(project.subjectMask),
+    },
+    frames: project.frames.map(toBundleFrame),
+    history: { undo: bundle.undo.map(toBundleSequence), redo: bundle.redo.map(toBundleSequence) },
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
+
+/**
+ * Reads a project file, migrating older versions and validating the
+ * result. Frames get fresh ids, since ids are only unique within a session;
+ * frames that are the same across history steps keep sharing one. Throws
+ * with a user-facing message when the file can't be used.
+ */
+export const readProjectBundle = async (file: Blob): Promise<ProjectBundle> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error("This file is not a MotionGen project.");
+  }
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) throw new Error("This file is not a MotionGen project.");
+  let data: unknown;
+  try {
+    data = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw invalid("its manifest is not valid JSON");
+  }
+  const manifest = checkManifest(migrateManifest(data));
+
+  // Each image is decoded once, so frames sharing it share one string
+  const images = new Map<string, Promise<string>>();
+  const readImage = (path: string) => {
+    let image = images.get(path);
+    if (!image) {
+      const entry = zip.file(path);
+      if (!entry) throw invalid(`${path} is missing`);
+      const extension = path.split('.').pop();
+      const mimeType = Object.keys(IMAGE_EXTENSIONS).find(type => IMAGE_EXTENSIONS[type] === extension) ?? 'image/png';
+      image = entry.async('base64').then(data => `data:${mimeType};base64,${data}`);
+      images.set(path, image);
+    }
+    return image;
+  };
+
+  const ids = new Map<number, number>();
+  const fromBundleFrame = async (frame: BundleFrame): Promise<GeneratedFrame> => {
+    if (!ids.has(frame.id)) ids.set(frame.id, createFrameId());
+    const upscales = frame.upscales && await Promise.all(
+      Object.entries(frame.upscales).map(async ([variant, path]) => [variant, await readImage(path!)] as const));
+    return {
+      id: ids.get(frame.id)!,
+      imageUrl: frame.image ? await readImage(frame.image) : '',
+      upscales: upscales && Object.fromEntries(upscales),
+      promptUsed: frame.promptUsed,
+      anchor: frame.anchor,
+      hold: frame.hold,
+      sampling: frame.sampling,
+      progress: frame.progress,
+    };
+  };
+  const fromBundleSequence = async (sequence: BundleSequence): Promise<SequenceState> => ({
+    frames: await Promise.all(sequence.frames.map(fromBundleFrame)),
+    // Jobs that were in flight when the step was recorded won't resume, so they restore as failed
+    frameStates: sequence.frameStates.map(state => (state.status === 'pending' || state.status === 'running'
+      ? { status: 'failed', attempts: state.attempts, error: 'Interrupted' }
+      : state)),
+  });
+
+  return {
+    project: {
+      ...manifest.project,
+      settings: manifest.settings,
+      sourceImage: await readImage(manifest.images.source),
+      endImage: manifest.images.end && await readImage(manifest.images.end),
+      subjectMask: manifest.images.subjectMask && await readImage(manifest.images.subjectMask),
+      frames: await Promise.all(manifest.frames.map(fromBundleFrame)),
+      playback: manifest.playback,
+    },
+    undo: await Promise.all(manifest.history.undo.map(fromBundleSequence)),
+    redo: await Promise.all(manifest.history.redo.map(fromBundleSequence)),
+  };
+};
@@ -0,0 +1,165 @@
+import { GeneratedFrame, PlaybackSettings, ProjectSnapshot, ProjectSummary, RunSettings, SamplingParams, UpscaleVariant } from '../types';
+import { blobToDataUrl, createThumbnail, dataUrlToBlob } from '../utils/imageUtils';
+import { createFrameId } from '../utils/frames';
+
+const DB_NAME = 'motiongen';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+
+// Images are kept as Blobs: IndexedDB stores them natively, without the
+// 33% base64 overhead and without holding every string in memory on listing.
+interface StoredFrame {
+  id: number;
+  image: Blob | null;
+  upscales?: Partial<Record<UpscaleVariant, Blob>>;
+  promptUsed: string;
+  anchor?: GeneratedFrame['anchor'];
+  hold?: number;
+  sampling?: SamplingParams;
+  progress?: number;
+}
+
+interface StoredProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  settings: RunSettings;
+  source: Blob;
+  end: Blob | null;
+  subjectMask?: Blob;
+  frames: StoredFrame[];
+  playback?: PlaybackSettings;
+  thumbnail: Blob | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECT_STORE, mode);
+  return promisify(run(tx.objectStore(PROJECT_STORE)));
+};
+
+const toSummary = (project: StoredProject): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+  description: project.settings.description,
+  frameCount: project.frames.filter(f => f.image).length,
+  thumbnail: project.thumbnail,
+});
+
+// Converts every upscaled variant of a frame, between data URLs and Blobs
+const mapUpscales = async <A, B>(upscales: Partial<Record<UpscaleVariant, A>>, convert: (value: A) => B | Promise<B>) => {
+  const entries = await Promise.all(Object.entries(upscales).map(async ([size, value]) => [size, await convert(value as A)]));
+  return Object.fromEntries(entries) as Partial<Record<UpscaleVariant, B>>;
+};
+
+export const createProjectId = () => crypto.randomUUID();
+
+/**
+ * Saves (or overwrites) a project. The thumbnail is taken from the last
+ * finished frame so the history shows where the motion ends up.
+ */
+export const saveProject = async (snapshot: ProjectSnapshot): Promise<void> => {
+  const lastFrame = [...snapshot.frames].reverse().find(f => f.imageUrl)?.imageUrl ?? snapshot.sourceImage;
+  const record: StoredProject = {
+    id: snapshot.id,
+    name: snapshot.name,
+    createdAt: snapshot.createdAt,
+    updatedAt: snapshot.updatedAt,
+    settings: snapshot.settings,
+    source: dataUrlToBlob(snapshot.sourceImage),
+    end: snapshot.endImage ? dataUrlToBlob(snapshot.endImage) : null,
+    subjectMask: snapshot.subjectMask ? dataUrlToBlob(snapshot.subjectMask) : undefined,
+    frames: await Promise.all(snapshot.frames.map(async frame => ({
+      id: frame.id,
+      image: frame.imageUrl ? dataUrlToBlob(frame.imageUrl) : null,
+      upscales: frame.upscales && await mapUpscales(frame.upscales, dataUrlToBlob),
+      promptUsed: frame.promptUsed,
+      anchor: frame.anchor,
+      hold: frame.hold,
+      sampling: frame.sampling,
+      progress: frame.progress,
+    }))),
+    playback: snapshot.playback,
+    thumbnail: await createThumbnail(lastFrame).catch(() => null),
+  };
+  await withStore('readwrite', store => store.put(record));
+};
+
+export const loadProject = async (id: string): Promise<ProjectSnapshot | null> => {
+  const record = await withStore<StoredProject | undefined>('readonly', store => store.get(id));
+  if (!record) return null;
+
+  return {
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    settings: record.settings,
+    sourceImage: await blobToDataUrl(record.source),
+    endImage: record.end ? await blobToDataUrl(record.end) : undefined,
+    subjectMask: record.subjectMask ? await blobToDataUrl(record.subjectMask) : undefined,
+    // Frame ids are only unique within a session, so loaded frames get fresh ones
+    frames: await Promise.all(record.frames.map(async frame => ({
+      id: createFrameId(),
+      imageUrl: frame.image ? await blobToDataUrl(frame.image) : '',
+      upscales: frame.upscales && await mapUpscales(frame.upscales, blobToDataUrl),
+      promptUsed: frame.promptUsed,
+      anchor: frame.anchor,
+      hold: frame.hold,
+      sampling: frame.sampling,
+      progress: frame.progress,
+    }))),
+    playback: record.playback,
+  };
+};
+
+/** Lists saved projects, most recently updated first. */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const records = await withStore<StoredProject[]>('readonly', store => store.getAll());
+  return records.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+/** Copies a project under a new id. Blobs are shared, so this is cheap. */
+export const duplicateProject = async (id: string): Promise<ProjectSummary> => {
+  const record = await withStore<StoredProject | undefined>('readonly', store => store.get(id));
+  if (!record) throw new Error(`Project ${id} not found`);
+
+  const now = Date.now();
+  const copy: StoredProject = { ...record, id: createProjectId(), name: `${record.name} (copy)`, createdAt: now, updatedAt: now };
+  await withStore('readwrite', store => store.put(copy));
+  return toSummary(copy);
+};
@@ -0,0 +1,236 @@
+import { InbetweenFrameRequest, MotionFrameRequest, PromptTemplate, SamplingParams, UpscaleSize } from "../types";
+import { evaluateMotion, describeMotionState, summarizeMotion } from "../utils/motion";
+
+/** Placeholders a template can use, for the editor's reference list. */
+export const PROMPT_VARIABLES: { name: string; description: string }[] = [
+  { name: 'frameIndex', description: 'Number of the frame being generated' },
+  { name: 'totalFrames', description: 'Number of generated frames in the sequence' },
+  { name: 'progress', description: 'Completion of the movement at this frame, in percent' },
+  { name: 'direction', description: 'Summary of the motion, e.g. "moving right while zooming in"' },
+  { name: 'description', description: 'The subject and action text' },
+  { name: 'target', description: 'Where the subject is at this frame, one instruction per line' },
+  { name: 'previousFrame', description: 'Chained: number of the input frame' },
+  { name: 'previousProgress', description: 'Chained: completion at the input frame, in percent' },
+  { name: 'step', description: 'Chained: percent of the movement this frame adds' },
+  { name: 'referenceNote', description: 'Chained: how to use the original image, when it is sent' },
+  { name: 'maskNote', description: 'How to use the subject mask, when one is sent' },
+  { name: 'size', description: 'Upscale: target size class' },
+];
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/**
+ * Replaces `{name}` placeholders. Unknown names are kept as written, and a
+ * line is dropped when every placeholder on it renders empty, so optional
+ * notes leave no stray bullet behind.
+ */
+export const renderTemplate = (template: string, variables: Record<string, string | number>): string =>
+  template
+    .split('\n')
+    .flatMap(line => {
+      const names = [...line.matchAll(PLACEHOLDER)].map(match => match[1]);
+      if (names.length > 0 && names.every(name => variables[name] === '')) return [];
+      return [line.replace(PLACEHOLDER, (match, name) => (name in variables ? String(variables[name]) : match))];
+    })
+    .join('\n')
+    .trim();
+
+const DEFAULT_FRAME = `Input image provided.
+Task: Generate a modified version of this image representing a specific moment in a motion sequence.
+Context: This is frame {frameIndex} of a {totalFrames}-frame sequence.
+Action: {description}.
+Motion: {direction}.
+
+Instruction:
+- This represents {progress}% completion of the movement. At this moment, relative to the input image:
+{target}
+- {maskNote}
+- Maintain the exact background, lighting, and art style of the original.
+- Do not change the camera angle significantly unless the motion implies it (e.g., zoom or orbit).
+- Maintain consistency with the original image content.
+- CRITICAL: Ensure there is strictly ONE instance of the main subject. Do NOT create duplicates, clones, or ghost images of the subject. Do NOT add other similar objects to the scene. The scene must contain only the original subject moved to the new position.`;
+
+const DEFAULT_CHAINED = `Input image provided: it is frame {previousFrame} of a {totalFrames}-frame motion sequence (the previous frame).
+Task: Generate the NEXT frame (frame {frameIndex}) by continuing the motion from the input image.
+Action: {description}.
+Motion: {direction}.
+
+Instruction:
+- Continue the motion by one small additional step, starting from the subject's current state in the input image.
+- This step covers {step}% of the total movement (from {previousProgress}% to {progress}% completion).
+- After this step, relative to the ORIGINAL first frame:
+{target}
+- The change between the input image and your output must be small and smooth, like consecutive frames of a video.
+- {referenceNote}
+- {maskNote}
+- Maintain the exact background, lighting, and art style of the input image.
+- Do not change the camera angle significantly unless the motion implies it (e.g., zoom or orbit).
+- CRITICAL: Ensure there is strictly ONE instance of the main subject. Do NOT create duplicates, clones, or ghost images of the subject. Do NOT add other similar objects to the scene.`;
+
+/** A moderate temperature balances creativity with consistency between frames. */
+export const DEFAULT_SAMPLING: SamplingParams = { temperature: 0.4 };
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  id: 'default',
+  name: 'Default',
+  builtIn: true,
+  frame: DEFAULT_FRAME,
+  chained: DEFAULT_CHAINED,
+  inbetween: `Two images are provided: the FIRST is the START keyframe and the SECOND is the END keyframe of a motion sequence.
+Task: Generate in-between frame {frameIndex} of {totalFrames} that sits between the two keyframes.
+Action: {description}.
+
+Instruction:
+- This frame is {progress}% of the way from the START keyframe to the END keyframe.
+- Interpolate the subject's position, pose, size and orientation accordingly, as a smooth transition between the keyframes.
+- Maintain the background, lighting, and art style shared by both keyframes.
+- Do not introduce anything that is in neither keyframe.
+- CRITICAL: Ensure there is strictly ONE instance of the main subject. Do NOT create duplicates, clones, or ghost images of the subject, and do NOT blend the two keyframes into a double exposure.`,
+  upscale: `High-Quality Upscale Task.
+Enhance the resolution, details, clarity, and texture of this image to {size} quality.
+Strictly maintain the original composition, subject pose, lighting, and style.
+Do not change the content or add new objects. This is a direct upscale.`,
+};
+
+export const BUILT_IN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  DEFAULT_PROMPT_TEMPLATE,
+  {
+    ...DEFAULT_PROMPT_TEMPLATE,
+    id: 'cinematic-pan',
+    name: 'Cinematic pan',
+    frame: `Input image provided: the opening shot of a cinematic camera move.
+Task: Render frame {frameIndex} of {totalFrames} of a smooth, steady camera move, as if shot on a dolly or gimbal.
+Scene: {description}.
+Camera: {direction}.
+
+Instruction:
+- The move is {progress}% complete. Relative to the opening shot:
+{target}
+- {maskNote}
+- Keep the film look of the original: lens, depth of field, color grade, grain and lighting stay identical.
+- Apply only the subtle motion blur a real camera would record at this speed, in the direction of travel.
+- Reveal new scenery at the frame edges consistently with what is already visible; never invent new subjects.
+- CRITICAL: Exactly ONE instance of the main subject. No duplicates, ghosts or double exposures.`,
+    chained: `Input image provided: frame {previousFrame} of a {totalFrames}-frame cinematic camera move.
+Task: Render the next frame ({frameIndex}) of the same continuous camera move.
+Scene: {description}.
+Camera: {direction}.
+
+Instruction:
+- Advance the move from {previousProgress}% to {progress}% ({step}% of the whole move). Relative to the opening shot:
+{target}
+- {referenceNote}
+- {maskNote}
+- Keep lens, depth of field, color grade, grain and lighting identical to the input frame.
+- The difference to the input frame must be small and smooth, like consecutive frames of a film.
+- CRITICAL: Exactly ONE instance of the main subject. No duplicates, ghosts or double exposures.`,
+  },
+  {
+    ...DEFAULT_PROMPT_TEMPLATE,
+    id: 'sprite-walk-cycle',
+    name: 'Sprite walk cycle',
+    frame: `Input image provided: a game sprite of a character.
+Task: Draw frame {frameIndex} of a {totalFrames}-frame looping walk cycle for this sprite.
+Character and action: {description}.
+Travel: {direction}.
+
+Instruction:
+- The cycle is {progress}% complete: pose the legs, arms and body for this phase of the stride so the frames loop seamlessly.
+{target}
+- {maskNote}
+- Keep the exact art style, palette, outline thickness, proportions and pixel density of the original sprite.
+- Keep the background and framing unchanged; the character stays the same size.
+- No motion blur, no new shading style, no anti-aliasing the original doesn't have.
+- CRITICAL: Exactly ONE character. No duplicates, afterimages or extra limbs.`,
+    chained: `Input image provided: frame {previousFrame} of a {totalFrames}-frame looping sprite walk cycle.
+Task: Draw the next frame ({frameIndex}) of the walk cycle.
+Character and action: {description}.
+Travel: {direction}.
+
+Instruction:
+- Advance the stride from {previousProgress}% to {progress}% of the cycle, so the frames loop seamlessly.
+{target}
+- {referenceNote}
+- {maskNote}
+- Keep the exact art style, palette, outline thickness, proportions and pixel density of the input frame.
+- No motion blur, no new shading style, no anti-aliasing the original doesn't have.
+- CRITICAL: Exactly ONE character. No duplicates, afterimages or extra limbs.`,
+  },
+  {
+    ...DEFAULT_PROMPT_TEMPLATE,
+    id: 'product-spin',
+    name: 'Product spin',
+    frame: `Input image provided: a studio product shot.
+Task: Render frame {frameIndex} of {totalFrames} of a smooth turntable spin of this product.
+Product: {description}.
+Motion: {direction}.
+
+Instruction:
+- The spin is {progress}% complete. At this moment:
+{target}
+- {maskNote}
+- The product stays centered at the same size; only its orientation changes, as if on a turntable.
+- Keep the studio lighting, background, reflections and shadows consistent with the original.
+- Keep labels, logos, text and materials accurate; reveal unseen sides plausibly and consistently.
+- CRITICAL: Exactly ONE product. No duplicates, props or extra objects.`,
+    chained: `Input image provided: frame {previousFrame} of a {totalFrames}-frame turntable spin of a product.
+Task: Render the next frame ({frameIndex}) of the spin.
+Product: {description}.
+Motion: {direction}.
+
+Instruction:
+- Advance the spin from {previousProgress}% to {progress}% ({step}% of the whole spin). At this moment:
+{target}
+- {referenceNote}
+- {maskNote}
+- The product stays centered at the same size; keep studio lighting, background, reflections and shadows consistent.
+- Keep labels, logos, text and materials accurate.
+- CRITICAL: Exactly ONE product. No duplicates, props or extra objects.`,
+  },
+];
+
+const percent = (value: number) => Math.round(value * 100);
+
+/**
+ * Builds the generation prompt. In chained mode the input image is the
+ * previous frame, so the prompt describes the incremental step from there
+ * instead of an absolute completion percentage.
+ */
+export const buildMotionPrompt = (request: MotionFrameRequest): string => {
+  const { frameIndex, totalFrames, description, motion, progress, chained, subjectMask, template = DEFAULT_PROMPT_TEMPLATE } = request;
+  const previousProgress = chained?.previousProgress ?? 0;
+  return renderTemplate(chained ? template.chained : template.frame, {
+    frameIndex,
+    totalFrames,
+    progress: percent(progress),
+    direction: summarizeMotion(motion),
+    description,
+    target: describeMotionState(motion, evaluateMotion(motion, progress)).map(line => `  - ${line}`).join('\n'),
+    previousFrame: frameIndex - 1,
+    previousProgress: percent(previousProgress),
+    step: Math.max(0, percent(progress) - percent(previousProgress)),
+    referenceNote: chained?.referenceImage
+      ? "A second image is provided: it is the ORIGINAL first frame. Use it only to keep the subject's identity, background, lighting and style faithful. Do NOT copy the subject's position from it."
+      : '',
+    // The mask is always sent last, after the input and any reference image
+    maskNote: subjectMask
+      ? "The LAST image provided is a black-and-white mask of the ORIGINAL first frame: white marks the subject that moves. Move only that subject. Everything in the black area is background and must stay exactly as it is; only fill in the background the subject uncovers. Do not reproduce the mask in your output."
+      : '',
+  });
+};
+
+/**
+ * Builds the prompt for an in-between frame in keyframe mode.
+ */
+export const buildInbetweenPrompt = (request: InbetweenFrameRequest): string => {
+  const { frameIndex, totalFrames, description, progress, template = DEFAULT_PROMPT_TEMPLATE } = request;
+  return renderTemplate(template.inbetween, {
+    frameIndex,
+    totalFrames,
+    progress: percent(progress),
+    description,
+  });
+};
+
+export const buildUpscalePrompt = (size: UpscaleSize, template: PromptTemplate = DEFAULT_PROMPT_TEMPLATE): string =>
+  renderTemplate(template.upscale, { size });
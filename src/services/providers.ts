@@ -0,0 +1,15 @@
+import { MotionProvider } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { activeApiKey } from "./settingsStore";
+
+export const PROVIDERS: MotionProvider[] = [geminiProvider, mockProvider];
+
+// Without a stored or build-time key there is nothing Gemini can do, so start offline
+export const DEFAULT_PROVIDER_ID = activeApiKey() ? geminiProvider.id : mockProvider.id;
+
+export const getProvider = (id: string): MotionProvider => {
+  const provider = PROVIDERS.find(p => p.id === id);
+  if (!provider) throw new Error(`Unknown motion provider: ${id}`);
+  return provider;
+};
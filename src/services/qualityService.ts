@@ -0,0 +1,59 @@
+import { FrameQuality, GeneratedFrame, QualityFlag, QualityOptions } from '../types';
+import { dataUrlToBlob } from '../utils/imageUtils';
+import { runWorkerJob } from './processing/workerJob';
+import type { QualityRequest } from './processing/quality.worker';
+
+export const DEFAULT_QUALITY: QualityOptions = {
+  autoRegenerate: false,
+  retryBudget: 2,
+};
+
+export const MAX_QUALITY_RETRIES = 5;
+
+export const QUALITY_FLAG_LABELS: Record<QualityFlag, string> = {
+  static: 'Barely moved',
+  backwards: 'Jumped backwards',
+  'palette-drift': 'Palette drifted',
+  'duplicate-subject': 'Subject appears twice',
+  'off-source': 'No longer matches the source',
+};
+
+/**
+ * Scores every frame against the source and its neighbours in a Web Worker.
+ * Frame 0 is the source; it, the end keyframe and missing frames get null.
+ */
+export const scoreFrames = async (
+  frames: string[],
+  anchors: boolean[],
+  signal?: AbortSignal,
+): Promise<(FrameQuality | null)[]> => {
+  if (!frames[0] || frames.length < 2) return frames.map(() => null);
+
+  const worker = new Worker(new URL('./processing/quality.worker.ts', import.meta.url), { type: 'module' });
+  const request: QualityRequest = {
+    frames: frames.map(frame => (frame ? dataUrlToBlob(frame) : null)),
+    anchors,
+  };
+  return runWorkerJob<QualityRequest, (FrameQuality | null)[]>(worker, request, undefined, signal);
+};
+
+/** The frame's flags and metrics as one line, for tooltips. */
+export const describeQuality = (quality: FrameQuality): string => {
+  const metrics = `SSIM ${quality.ssim.toFixed(2)} · hash distance ${quality.hashDistance} · motion ${(quality.motion * 100).toFixed(1)}% · palette drift ${(quality.paletteDrift * 100).toFixed(0)}%`;
+  return quality.flags.length > 0
+    ? `${quality.flags.map(flag => QUALITY_FLAG_LABELS[flag]).join(', ')} (${metrics})`
+    : metrics;
+};
+
+/**
+ * Indices of flagged frames that have automatic regenerations left, given
+ * how many each frame has had so far, by frame id.
+ */
+export const framesToRegenerate = (
+  frames: GeneratedFrame[],
+  quality: (FrameQuality | null)[],
+  attempts: Record<number, number>,
+  budget: number,
+): number[] =>
+  frames.flatMap((frame, i) =>
+    !frame.anchor && frame.imageUrl && quality[i]?.flags.length && (attempts[frame.id] ?? 0) < budget ? [i] : []);
@@ -0,0 +1,70 @@
+import { AppSettings } from '../types';
+import { DEFAULT_SAMPLING } from './prompts';
+
+const STORAGE_KEY = 'motiongen.settings';
+
+/** Known Gemini image models, offered as suggestions; any other model id can be entered. */
+export const GENERATION_MODELS = [
+  { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image' },
+  { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image (preview)' },
+];
+
+/** Upscaling needs a model that accepts an output size. */
+export const UPSCALE_MODELS = [
+  { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image (preview)' },
+];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  apiKey: '',
+  generationModel: 'gemini-2.5-flash-image',
+  upscaleModel: 'gemini-3-pro-image-preview',
+  defaultTemperature: DEFAULT_SAMPLING.temperature,
+};
+
+export const modelLabel = (id: string) =>
+  [...GENERATION_MODELS, ...UPSCALE_MODELS].find(model => model.id === id)?.label ?? id;
+
+const readSettings = (): AppSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    if (!stored || typeof stored !== 'object') return DEFAULT_SETTINGS;
+    const settings = { ...DEFAULT_SETTINGS };
+    if (typeof stored.apiKey === 'string') settings.apiKey = stored.apiKey;
+    if (typeof stored.generationModel === 'string' && stored.generationModel) settings.generationModel = stored.generationModel;
+    if (typeof stored.upscaleModel === 'string' && stored.upscaleModel) settings.upscaleModel = stored.upscaleModel;
+    if (typeof stored.defaultTemperature === 'number') settings.defaultTemperature = stored.defaultTemperature;
+    return settings;
+  } catch (error) {
+    console.error("Failed to read settings", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Read once; services look the settings up on every request, so changes apply without a reload
+let current: AppSettings | null = null;
+
+export const getSettings = (): AppSettings => {
+  if (!current) current = readSettings();
+  return current;
+};
+
+/**
+ * Applies the settings and stores them. Returns false when the browser
+ * refuses to store them; they still apply until the page is closed.
+ */
+export const saveSettings = (settings: AppSettings): boolean => {
+  current = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    return true;
+  } catch (error) {
+    console.error("Failed to save settings", error);
+    return false;
+  }
+};
+
+/** Whether the build came with a key, used when none is entered in settings. */
+export const hasBuiltInApiKey = Boolean(process.env.API_KEY);
+
+/** The key requests use: the one entered in settings, otherwise the one built into the app. */
+export const activeApiKey = (): string | undefined => getSettings().apiKey || process.env.API_KEY || undefined;
@@ -0,0 +1,42 @@
+import { MotionState, StabilizationOptions } from '../types';
+import { blobToDataUrl, dataUrlToBlob } from '../utils/imageUtils';
+import { runWorkerJob } from './processing/workerJob';
+import type { StabilizeRequest } from './processing/stabilize.worker';
+
+export const DEFAULT_STABILIZATION: StabilizationOptions = {
+  align: true,
+  normalizeColor: true,
+  lockBackground: false,
+  backgroundThreshold: 0.08,
+  compositeSubject: true,
+};
+
+/** A subject mask on frame 0 and each frame's motion relative to it. */
+export interface SubjectComposite {
+  mask: string;
+  motion: (MotionState | null)[];
+}
+
+/**
+ * Aligns, color-matches and optionally background-locks every frame against
+ * frame 0 in a Web Worker. With a subject, the background lock follows the
+ * masked subject instead. Empty frames stay empty; frame 0 is returned as is.
+ */
+export const stabilizeFrames = async (
+  frames: string[],
+  options: StabilizationOptions,
+  subject?: SubjectComposite,
+  onProgress?: (completed: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<string[]> => {
+  if (frames.length < 2 || !frames[0]) return frames;
+
+  const worker = new Worker(new URL('./processing/stabilize.worker.ts', import.meta.url), { type: 'module' });
+  const request: StabilizeRequest = {
+    frames: frames.map(frame => (frame ? dataUrlToBlob(frame) : null)),
+    options,
+    subject: subject && { mask: dataUrlToBlob(subject.mask), motion: subject.motion },
+  };
+  const results = await runWorkerJob(worker, request, onProgress, signal);
+  return Promise.all(results.map((blob, i) => (i === 0 ? frames[0] : blob ? blobToDataUrl(blob) : '')));
+};
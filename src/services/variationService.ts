@@ -0,0 +1,75 @@
+import { GeneratedFrame, SamplingParams, VariationOptions, VariationTake } from '../types';
+import { GenerationRun, createRunFrames, generateMissingFrames, initialFrameStates } from './generationRun';
+import { JobQueue } from './generationQueue';
+import { createFrame } from '../utils/frames';
+
+export const MAX_VARIATIONS = 6;
+
+export const DEFAULT_VARIATIONS: VariationOptions = {
+  count: 4,
+  minTemperature: 0.3,
+  maxTemperature: 0.9,
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+/**
+ * Sampling for each take: temperatures evenly spread over the range and
+ * consecutive seeds, so every take is reproducible from its own parameters.
+ */
+export const variationSampling = (options: VariationOptions, baseSeed: number = randomSeed()): SamplingParams[] =>
+  Array.from({ length: options.count }, (_, i) => ({
+    temperature: options.count > 1
+      ? Math.round((options.minTemperature + (options.maxTemperature - options.minTemperature) * (i / (options.count - 1))) * 100) / 100
+      : options.minTemperature,
+    seed: baseSeed + i,
+  }));
+
+export const createTakes = (run: GenerationRun, sampling: SamplingParams[]): VariationTake[] =>
+  sampling.map(params => {
+    const frames = createRunFrames(run);
+    return { sampling: params, frames, frameStates: initialFrameStates(frames) };
+  });
+
+/**
+ * Generates every take's missing frames through the shared queue, each with
+ * its own sampling. Reports every change as a new take and resolves with
+ * all errors once the takes have settled.
+ */
+export const runVariations = async (
+  run: GenerationRun,
+  takes: VariationTake[],
+  queue: JobQueue,
+  onChange: (index: number, take: VariationTake) => void,
+): Promise<unknown[]> => {
+  const results = await Promise.all(takes.map((initial, index) => {
+    let take = initial;
+    const update = (next: Partial<VariationTake>) => {
+      take = { ...take, ...next };
+      onChange(index, take);
+    };
+    return generateMissingFrames({ ...run, sampling: initial.sampling }, initial.frames, queue, {
+      onFrame: (frameIndex, result) =>
+        update({ frames: take.frames.map((frame, i) => (i === frameIndex ? { ...frame, ...result } : frame)) }),
+      onState: (frameIndex, state) =>
+        update({ frameStates: take.frameStates.map((s, i) => (i === frameIndex ? state : s)) }),
+    });
+  }));
+  return results.flat();
+};
+
+/**
+ * Builds a sequence from the take picked for each position. Frames get fresh
+ * ids, since the same frame can end up in the editor more than once.
+ */
+export const assembleTakes = (takes: VariationTake[], picks: number[]): GeneratedFrame[] =>
+  takes[0].frames.map((_, i) => {
+    const frame = takes[picks[i] ?? 0]?.frames[i] ?? takes[0].frames[i];
+    return { ...createFrame(frame.imageUrl, frame.promptUsed), anchor: frame.anchor, sampling: frame.sampling };
+  });
+
+/** The take most of the picked frames come from; ties go to the earlier take. */
+export const dominantTake = (picks: number[], takeCount: number): number => {
+  const counts = Array.from({ length: takeCount }, (_, take) => picks.filter(pick => pick === take).length);
+  return counts.indexOf(Math.max(...counts));
+};
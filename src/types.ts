@@ -3,6 +3,27 @@ export interface GeneratedFrame {
   id: number;
   imageUrl: string;
   promptUsed: string;
+  /** Marks the uploaded start/end images, which are never regenerated or removed. */
+  anchor?: 'start' | 'end';
+  /** How many frame intervals this frame stays on screen; 1 when unset. */
+  hold?: number;
+  /** Upscaled versions of imageUrl, which itself always stays the generated frame. */
+  upscales?: Partial<Record<UpscaleVariant, string>>;
+  /** Sampling the frame was generated with, when it was set explicitly. */
+  sampling?: SamplingParams;
+  /** Eased position along the run's motion the frame was made for. Moves with the frame when the sequence is edited. */
+  progress?: number;
+}
+
+/** What a generated frame comes back as; providers fill in the image and prompt. */
+export type FrameResult = Pick<GeneratedFrame, 'imageUrl' | 'promptUsed' | 'sampling' | 'progress'>;
+
+export type FrameJobStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface FrameJobState {
+  status: FrameJobStatus;
+  attempts: number;
+  error?: string;
 }
 
 export interface GenerationStatus {
@@ -10,6 +31,370 @@ export interface GenerationStatus {
   completedFrames: number;
   totalFrames: number;
   error?: string;
+  /** Per-frame job state, aligned with the frame sequence (index 0 is the original). */
+  frameStates?: FrameJobState[];
 }
 
 export type AspectRatio = "1:1" | "3:4" | "4:3" | "16:9" | "9:16";
+
+/**
+ * Raw RGBA pixel buffer. Structurally compatible with the DOM `ImageData`,
+ * so encoders can run against canvas output or plain test fixtures alike.
+ */
+export interface PixelFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface PathPoint {
+  /** Normalized image coordinates, 0..1 from the left/top edge. */
+  x: number;
+  y: number;
+}
+
+/**
+ * Structured description of the whole movement. Components combine, so
+ * e.g. translateX with zoom moves right while getting closer.
+ */
+export interface MotionDescription {
+  /** Horizontal travel over the sequence as a fraction of frame width; positive is right. */
+  translateX: number;
+  /** Vertical travel as a fraction of frame height; positive is down. */
+  translateY: number;
+  /** Subject scale reached at the end; above 1 is closer. */
+  zoom: number;
+  /** In-plane rotation reached at the end, in degrees; positive is clockwise. */
+  rotation: number;
+  /** Viewpoint orbit around the subject reached at the end, in degrees; positive orbits right. */
+  orbit: number;
+  /** Drawn path for the subject's center. Replaces translateX/translateY when present. */
+  path?: PathPoint[];
+}
+
+/** Resolved motion at a given progress, relative to the original frame. */
+export interface MotionState {
+  offsetX: number;
+  offsetY: number;
+  scale: number;
+  rotation: number;
+  orbit: number;
+  /** Absolute subject position when following a drawn path. */
+  position?: PathPoint;
+}
+
+/** Target resolution class of an upscale, by its longest side. */
+export type UpscaleSize = '1K' | '2K' | '4K';
+
+export type LocalUpscaleAlgorithm = 'bicubic' | 'lanczos3';
+
+export interface LocalUpscaleOptions {
+  algorithm: LocalUpscaleAlgorithm;
+  factor: 2 | 4;
+  /** Unsharp-mask strength; 0 skips sharpening. */
+  sharpen: number;
+}
+
+/** Key of an upscaled version: a provider size class, or the local resampling settings that produced it. */
+export type UpscaleVariant = UpscaleSize | `local-${LocalUpscaleOptions['factor']}x-${LocalUpscaleAlgorithm}-s${number}`;
+
+export interface ProviderCapabilities {
+  /** Aspect ratios the provider can produce when upscaling. */
+  aspectRatios: AspectRatio[];
+  canUpscale: boolean;
+  upscaleSizes: UpscaleSize[];
+  /** Estimated price of one upscale request in USD, for the cost preview. */
+  upscaleCost?: Partial<Record<UpscaleSize, number>>;
+  /** Can generate in-betweens from a start and an end keyframe. */
+  supportsKeyframes: boolean;
+  requiresApiKey: boolean;
+  requiresNetwork: boolean;
+}
+
+/** Preferences kept in this browser, so a built app works without rebuilding. */
+export interface AppSettings {
+  /** Gemini API key; the key built into the app is used when empty. */
+  apiKey: string;
+  generationModel: string;
+  upscaleModel: string;
+  /** Temperature new generations start from. */
+  defaultTemperature: number;
+}
+
+/** Sampling parameters of a generation request, recorded so a take can be reproduced. */
+export interface SamplingParams {
+  temperature: number;
+  /** Fixed seed; when unset the backend picks one, so repeated requests differ. */
+  seed?: number;
+}
+
+export interface MotionFrameRequest {
+  /** Source image as a data URL. */
+  image: string;
+  frameIndex: number;
+  totalFrames: number;
+  /** Eased completion of the movement at this frame (0..1). */
+  progress: number;
+  description: string;
+  motion: MotionDescription;
+  /** Set in chained mode, where `image` is the previous frame rather than the original. */
+  chained?: {
+    previousProgress: number;
+    /** The original upload, passed along to anchor identity and style. */
+    referenceImage?: string;
+  };
+  /** Black-and-white mask of the original frame, white where the subject to move is. */
+  subjectMask?: string;
+  /** Prompt template to render; the default template when unset. */
+  template?: PromptTemplate;
+  sampling?: SamplingParams;
+  /** Generation model to use; the provider's current one when unset. */
+  model?: string;
+  signal?: AbortSignal;
+}
+
+export interface InbetweenFrameRequest {
+  startImage: string;
+  endImage: string;
+  /** 1-based index of the in-between frame. */
+  frameIndex: number;
+  /** Number of in-between frames, not counting the two keyframes. */
+  totalFrames: number;
+  /** Eased position between the keyframes (0 = start, 1 = end). */
+  progress: number;
+  description: string;
+  template?: PromptTemplate;
+  sampling?: SamplingParams;
+  /** Generation model to use; the provider's current one when unset. */
+  model?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Named prompt templates with `{variable}` placeholders, one per kind of
+ * request. Lines whose placeholders all render empty are left out.
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  /** A frame generated from the original image. */
+  frame: string;
+  /** A frame generated from the previous frame, in chained mode. */
+  chained: string;
+  /** An in-between frame, in keyframe mode. */
+  inbetween: string;
+  upscale: string;
+  /** Shipped with the app; can be copied but not changed or deleted. */
+  builtIn?: boolean;
+}
+
+/** Backend models a provider generates and upscales with, recorded with every run. */
+export interface ProviderModels {
+  generation: string;
+  upscale?: string;
+}
+
+/**
+ * A backend able to synthesize motion frames and upscale them.
+ * Gemini is one adapter; the mock provider runs fully offline.
+ */
+export interface MotionProvider {
+  id: string;
+  name: string;
+  models: ProviderModels;
+  capabilities: ProviderCapabilities;
+  generateFrame: (request: MotionFrameRequest) => Promise<FrameResult>;
+  generateInbetween: (request: InbetweenFrameRequest) => Promise<FrameResult>;
+  upscaleFrame: (image: string, aspectRatio: AspectRatio, size: UpscaleSize, template?: PromptTemplate) => Promise<string>;
+}
+
+export type EasingType = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'bounce' | 'cubic-bezier';
+
+export interface EasingConfig {
+  type: EasingType;
+  /** Control points (x1, y1, x2, y2), used when type is 'cubic-bezier'. */
+  bezier?: [number, number, number, number];
+}
+
+export type GenerationMode = 'parallel' | 'chained';
+
+export interface MotionTiming {
+  frameCount: number;
+  fps: number;
+  easing: EasingConfig;
+}
+
+/** Everything needed to reproduce a run, as captured when it started. */
+export interface RunSettings {
+  providerId: string;
+  description: string;
+  motion: MotionDescription;
+  timing: MotionTiming;
+  mode: GenerationMode;
+  useReference: boolean;
+  /** Missing in runs saved before templates existed, which used the default. */
+  promptTemplate?: PromptTemplate;
+  /** Missing in runs that used the backend's default sampling. */
+  sampling?: SamplingParams;
+  /** Missing in runs saved before models were recorded. */
+  models?: ProviderModels;
+}
+
+/** A saved run in memory, with images as data URLs. */
+export interface ProjectSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  settings: RunSettings;
+  sourceImage: string;
+  /** Present for keyframe runs. */
+  endImage?: string;
+  /** Subject mask drawn on sourceImage, white on black, at its size. */
+  subjectMask?: string;
+  /** The full sequence including the original (and end keyframe); pending frames have an empty imageUrl. */
+  frames: GeneratedFrame[];
+  playback?: PlaybackSettings;
+}
+
+/** A state of the sequence in the edit history: frames and their job states, kept aligned. */
+export interface SequenceState {
+  frames: GeneratedFrame[];
+  frameStates: FrameJobState[];
+}
+
+/** A project with its undo and redo history, as exchanged in a project file. */
+export interface ProjectBundle {
+  project: ProjectSnapshot;
+  undo: SequenceState[];
+  redo: SequenceState[];
+}
+
+/** Lightweight listing entry for the history panel. */
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  description: string;
+  frameCount: number;
+  thumbnail: Blob | null;
+}
+
+export interface StabilizationOptions {
+  /** Register each frame's background onto frame 0 (translation and scale). */
+  align: boolean;
+  /** Match each frame's color and exposure to frame 0. */
+  normalizeColor: boolean;
+  /** Copy frame 0 back wherever a frame barely differs from it. */
+  lockBackground: boolean;
+  /** Luma difference (0..1) under which a pixel counts as unchanged background. */
+  backgroundThreshold: number;
+  /**
+   * With a subject mask, keep only the subject's region from each frame and
+   * take everything else from frame 0. Replaces lockBackground.
+   */
+  compositeSubject: boolean;
+}
+
+/**
+ * Outliers found by the quality check: a frame that barely moved from its
+ * predecessor, moved back toward an earlier frame, drifted from the source's
+ * palette, seems to show the subject twice, or no longer resembles the source.
+ */
+export type QualityFlag = 'static' | 'backwards' | 'palette-drift' | 'duplicate-subject' | 'off-source';
+
+/** Local quality metrics of a generated frame. */
+export interface FrameQuality {
+  /** Structural similarity (SSIM) of the frame's luma to the source, -1..1. */
+  ssim: number;
+  /** Bits that differ between the perceptual hashes of the frame and the source, 0..64. */
+  hashDistance: number;
+  /** Mean luma difference from the previous frame, 0..1. */
+  motion: number;
+  /** Share of the color histogram that differs from the source, 0..1. */
+  paletteDrift: number;
+  flags: QualityFlag[];
+}
+
+export interface QualityOptions {
+  /** Regenerate flagged frames automatically once the sequence settles. */
+  autoRegenerate: boolean;
+  /** Automatic regenerations allowed per frame. */
+  retryBudget: number;
+}
+
+export type InterpolationMethod = 'crossfade' | 'optical-flow';
+
+export interface InterpolationOptions {
+  /** Output frames per source frame interval; 1 disables interpolation. */
+  multiplier: number;
+  method: InterpolationMethod;
+}
+
+export type PlaybackMode = 'loop' | 'ping-pong' | 'once';
+
+/** How the sequence is played back, in the preview and in every export. */
+export interface PlaybackSettings {
+  mode: PlaybackMode;
+  /** Multiplier on the frame rate. */
+  speed: number;
+}
+
+export type SpriteSheetLayout = 'grid' | 'packed';
+
+export interface SpriteSheetOptions {
+  layout: SpriteSheetLayout;
+  /** Grid columns; 0 picks a near-square grid. */
+  columns: number;
+  /** Transparent pixels around and between frames. */
+  padding: number;
+  /** Cut away fully transparent borders; metadata records the offsets. */
+  trim: boolean;
+  /** Round the sheet's width and height up to powers of two. */
+  powerOfTwo: boolean;
+}
+
+/** Per-image settings in a batch; anything unset uses the batch's shared settings. */
+export interface BatchOverrides {
+  description?: string;
+  /** Id of a motion preset that replaces the shared motion. */
+  motionPreset?: string;
+  frameCount?: number;
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/** One image of a batch and the sequence generated from it. */
+export interface BatchItem {
+  id: string;
+  /** File name without extension, also used as its folder in the export. */
+  name: string;
+  image: string;
+  overrides: BatchOverrides;
+  status: BatchItemStatus;
+  /** The sequence including the original, as in a single run; empty until the item starts. */
+  frames: GeneratedFrame[];
+  frameStates: FrameJobState[];
+  /** Settings the item was generated with. */
+  settings?: RunSettings;
+  /** History entry the finished item is saved under. */
+  projectId?: string;
+  error?: string;
+}
+
+export interface VariationOptions {
+  /** Number of candidate sequences generated side by side. */
+  count: number;
+  /** Takes spread their temperatures evenly across this range. */
+  minTemperature: number;
+  maxTemperature: number;
+}
+
+/** One candidate sequence of a variations run. */
+export interface VariationTake {
+  sampling: SamplingParams;
+  /** The sequence including the original (and end keyframe), as in a single run. */
+  frames: GeneratedFrame[];
+  frameStates: FrameJobState[];
+}
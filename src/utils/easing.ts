@@ -0,0 +1,77 @@
+import { EasingConfig, EasingType } from '../types';
+
+export const EASING_OPTIONS: { id: EasingType; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'ease-in', label: 'Ease In' },
+  { id: 'ease-out', label: 'Ease Out' },
+  { id: 'ease-in-out', label: 'Ease In-Out' },
+  { id: 'bounce', label: 'Bounce' },
+  { id: 'cubic-bezier', label: 'Custom Bezier' },
+];
+
+export const DEFAULT_BEZIER: [number, number, number, number] = [0.25, 0.1, 0.25, 1];
+
+/**
+ * Evaluates a CSS-style cubic-bezier timing function at time t.
+ * Solves x(s) = t with Newton's method, falling back to bisection.
+ */
+export const cubicBezier = (x1: number, y1: number, x2: number, y2: number, t: number): number => {
+  const sample = (a1: number, a2: number, s: number) =>
+    3 * a1 * s * (1 - s) ** 2 + 3 * a2 * s ** 2 * (1 - s) + s ** 3;
+  const slope = (a1: number, a2: number, s: number) =>
+    3 * a1 * (1 - s) ** 2 + 6 * (a2 - a1) * s * (1 - s) + 3 * (1 - a2) * s ** 2;
+
+  let s = t;
+  for (let i = 0; i < 8; i++) {
+    const error = sample(x1, x2, s) - t;
+    if (Math.abs(error) < 1e-6) return sample(y1, y2, s);
+    const d = slope(x1, x2, s);
+    if (Math.abs(d) < 1e-6) break;
+    s -= error / d;
+  }
+
+  let lo = 0;
+  let hi = 1;
+  s = t;
+  for (let i = 0; i < 50; i++) {
+    const x = sample(x1, x2, s);
+    if (Math.abs(x - t) < 1e-6) break;
+    if (x < t) lo = s; else hi = s;
+    s = (lo + hi) / 2;
+  }
+  return sample(y1, y2, s);
+};
+
+const bounceOut = (t: number): number => {
+  const n1 = 7.5625;
+  const d1 = 2.75;
+  if (t < 1 / d1) return n1 * t * t;
+  if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75;
+  if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375;
+  return n1 * (t -= 2.625 / d1) * t + 0.984375;
+};
+
+/**
+ * Maps linear progress (0..1) through the easing curve.
+ */
+export const applyEasing = (t: number, easing: EasingConfig): number => {
+  const x = Math.min(1, Math.max(0, t));
+  switch (easing.type) {
+    case 'ease-in': return cubicBezier(0.42, 0, 1, 1, x);
+    case 'ease-out': return cubicBezier(0, 0, 0.58, 1, x);
+    case 'ease-in-out': return cubicBezier(0.42, 0, 0.58, 1, x);
+    case 'bounce': return bounceOut(x);
+    case 'cubic-bezier': {
+      const [x1, y1, x2, y2] = easing.bezier ?? DEFAULT_BEZIER;
+      return cubicBezier(x1, y1, x2, y2, x);
+    }
+    default: return x;
+  }
+};
+
+/**
+ * Eased progress for a generated frame. Frame indices are 1-based and the
+ * last frame reaches full completion.
+ */
+export const frameProgress = (frameIndex: number, totalFrames: number, easing: EasingConfig): number =>
+  applyEasing(totalFrames > 0 ? frameIndex / totalFrames : 0, easing);
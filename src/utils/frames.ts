@@ -0,0 +1,29 @@
+import { GeneratedFrame } from '../types';
+
+let nextFrameId = 1;
+
+/** Frame ids are only unique within the session and serve as stable keys while the sequence is edited. */
+export const createFrameId = () => nextFrameId++;
+
+/** Creates a frame with a fresh id. */
+export const createFrame = (imageUrl: string = '', promptUsed: string = ''): GeneratedFrame => ({
+  id: createFrameId(),
+  imageUrl,
+  promptUsed,
+});
+
+/** Returns a copy of items with the element at `from` moved to `to`. */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+export const insertItem = <T>(items: T[], index: number, item: T): T[] => [
+  ...items.slice(0, index),
+  item,
+  ...items.slice(index),
+];
+
+export const removeItem = <T>(items: T[], index: number): T[] => items.filter((_, i) => i !== index);
@@ -0,0 +1,170 @@
+import { AspectRatio } from '../types';
+import { ASPECT_RATIO_VALUES } from './imageUtils';
+
+/** Matches the limit stated in the uploader. */
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+/** Choices for the longest side of the normalized image. */
+export const MAX_DIMENSION_OPTIONS = [768, 1024, 1536, 2048];
+export const DEFAULT_MAX_DIMENSION = 1536;
+
+const SIGNATURES: { mimeType: string; bytes: (number | null)[] }[] = [
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  // "RIFF", four size bytes, "WEBP"
+  { mimeType: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { mimeType: 'image/bmp', bytes: [0x42, 0x4d] },
+];
+
+/**
+ * Detects the image format from its leading bytes. File names and the
+ * browser-reported type are unreliable, e.g. a PNG renamed to .jpg.
+ */
+export const detectImageMime = (bytes: Uint8Array): string | null =>
+  SIGNATURES.find(sig => sig.bytes.every((b, i) => b === null || bytes[i] === b))?.mimeType ?? null;
+
+/**
+ * Reads the EXIF orientation tag (1-8) from a JPEG's APP1 segment.
+ * Returns 1 (upright) when there is none or the segment is malformed.
+ */
+export const readExifOrientation = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: no metadata past this point
+    if (marker === 0xda) break;
+    const size = view.getUint16(offset + 2);
+    // Offsets come from the file, so every read is checked against its length
+    const isExif = marker === 0xe1 && offset + 10 <= bytes.length
+      && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0;
+    if (isExif) {
+      const tiff = offset + 10;
+      if (tiff + 8 > bytes.length) break;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > bytes.length) break;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > bytes.length) break;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, little);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      break;
+    }
+    offset += 2 + size;
+  }
+  return 1;
+};
+
+/** A decoded upload, upright, before cropping. */
+export interface InputImage {
+  bitmap: ImageBitmap;
+  /** Detected from the file contents. */
+  mimeType: string;
+  /** EXIF orientation that was applied while decoding; 1 means none. */
+  orientation: number;
+}
+
+/**
+ * Validates and decodes an uploaded file. Throws with a user-facing
+ * message when it is too large or not a supported image.
+ */
+export const readInputImage = async (file: File): Promise<InputImage> => {
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new Error(`This image is ${(file.size / 1024 / 1024).toFixed(1)} MB; the limit is 5 MB.`);
+  }
+  // EXIF lives in the first segments, well within the first 64 KB
+  const header = new Uint8Array(await file.slice(0, 64 * 1024).arrayBuffer());
+  const mimeType = detectImageMime(header);
+  if (!mimeType) throw new Error("Unsupported file. Please upload a PNG, JPEG, WebP, GIF or BMP image.");
+
+  const orientation = mimeType === 'image/jpeg' ? readExifOrientation(header) : 1;
+  // The decoder applies the orientation; the re-encoded output carries no EXIF, so nothing downstream rotates it again
+  const bitmap = await createImageBitmap(new Blob([file], { type: mimeType }), { imageOrientation: 'from-image' });
+  return { bitmap, mimeType, orientation };
+};
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** The largest centered crop with the given aspect ratio. */
+export const centeredCrop = (width: number, height: number, aspectRatio: AspectRatio): CropRect => {
+  const ratio = ASPECT_RATIO_VALUES[aspectRatio];
+  const cropWidth = Math.min(width, height * ratio);
+  const cropHeight = cropWidth / ratio;
+  return { x: (width - cropWidth) / 2, y: (height - cropHeight) / 2, width: cropWidth, height: cropHeight };
+};
+
+/** Output size of a crop once its longest side is capped at maxDimension. */
+export const normalizedSize = (crop: CropRect, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(crop.width, crop.height));
+  return { width: Math.max(1, Math.round(crop.width * scale)), height: Math.max(1, Math.round(crop.height * scale)) };
+};
+
+/**
+ * Crops, downscales and re-encodes the upload. JPEGs stay JPEG; anything
+ * else becomes PNG so transparency survives.
+ */
+export const normalizeImage = (input: InputImage, crop: CropRect, maxDimension: number): string => {
+  const { width, height } = normalizedSize(crop, maxDimension);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(input.bitmap, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+  return input.mimeType === 'image/jpeg' ? canvas.toDataURL('image/jpeg', 0.92) : canvas.toDataURL('image/png');
+};
+
+/** Decodes and downscales an upload without a crop step, as batches do. */
+export const readNormalizedImage = async (file: File, maxDimension: number = DEFAULT_MAX_DIMENSION): Promise<string> => {
+  const input = await readInputImage(file);
+  try {
+    return normalizeImage(input, { x: 0, y: 0, width: input.bitmap.width, height: input.bitmap.height }, maxDimension);
+  } finally {
+    input.bitmap.close();
+  }
+};
+
+/** Whether a file looks like an image worth reading; contents are checked on read. */
+export const isImageFile = (file: File) =>
+  file.type.startsWith('image/') || /\.(png|jpe?g|webp|gif|bmp)$/i.test(file.name);
+
+const readDirectory = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+  }
+  if (!entry.isDirectory) return [];
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const entries: FileSystemEntry[] = [];
+  // Each call returns the next chunk of entries, and an empty list once done
+  for (let chunk = await readDirectory(reader); chunk.length > 0; chunk = await readDirectory(reader)) {
+    entries.push(...chunk);
+  }
+  return (await Promise.all(entries.map(entryFiles))).flat();
+};
+
+/**
+ * Files from a drop, with dropped folders read recursively. Entries are
+ * taken synchronously, since the drop's data is cleared after the event.
+ */
+export const collectDroppedFiles = async (data: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(data.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (entries.length === 0) return Array.from(data.files);
+  return (await Promise.all(entries.map(entryFiles))).flat();
+};
@@ -0,0 +1,143 @@
+import { AspectRatio, PixelFrame, UpscaleSize } from '../types';
+
+export const ASPECT_RATIO_VALUES: Record<AspectRatio, number> = {
+  "1:1": 1.0,
+  "3:4": 0.75,
+  "4:3": 4 / 3,
+  "9:16": 9 / 16,
+  "16:9": 16 / 9,
+};
+
+/** Longest side in pixels for each upscale size. */
+export const UPSCALE_SIZE_PIXELS: Record<UpscaleSize, number> = {
+  "1K": 1024,
+  "2K": 2048,
+  "4K": 4096,
+};
+
+// Helper to load image for canvas
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+};
+
+/**
+ * Loads a sequence of frames. A frame that can't be decoded fails the whole
+ * load with its position, so exports never quietly come out shorter.
+ */
+export const loadFrames = (frames: string[]): Promise<HTMLImageElement[]> =>
+  Promise.all(frames.map((src, i) => loadImage(src).catch(() => {
+    throw new Error(`Frame ${i + 1} could not be decoded.`);
+  })));
+
+/**
+ * Snaps an image's aspect ratio to the closest one in the supported list.
+ */
+export const getClosestAspectRatio = async (
+  imgSrc: string,
+  supported: AspectRatio[] = Object.keys(ASPECT_RATIO_VALUES) as AspectRatio[]
+): Promise<AspectRatio> => {
+  const img = await loadImage(imgSrc);
+  const ratio = img.width / img.height;
+
+  return supported.reduce((prev, curr) => {
+    return Math.abs(ASPECT_RATIO_VALUES[curr] - ratio) < Math.abs(ASPECT_RATIO_VALUES[prev] - ratio) ? curr : prev;
+  });
+};
+
+/**
+ * Decodes a list of image sources into RGBA pixel buffers of identical size.
+ * Generated frames don't always match the original's dimensions, so every
+ * frame is drawn onto a canvas sized after the first one (or the given size).
+ */
+export const rasterizeFrames = async (
+  frames: string[],
+  size?: { width: number; height: number }
+): Promise<PixelFrame[]> => {
+  if (frames.length === 0) return [];
+
+  const images = await loadFrames(frames);
+  const width = size?.width ?? images[0].width;
+  const height = size?.height ?? images[0].height;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  return images.map(img => {
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  });
+};
+
+/**
+ * Triggers a browser download for the given blob.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/** File extensions of image types other than PNG, which everything else is saved as. */
+export const IMAGE_EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif' };
+
+/**
+ * Splits a base64 data URL into its MIME type and payload. A bare base64
+ * string is treated as PNG.
+ */
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  const match = dataUrl.match(/^data:([^;,]+)(?:;[^,]*)?,/);
+  if (!match) return { mimeType: 'image/png', data: dataUrl };
+  return { mimeType: match[1], data: dataUrl.slice(match[0].length) };
+};
+
+/**
+ * Converts a data URL into a Blob without going through fetch.
+ */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const { mimeType, data } = parseDataUrl(dataUrl);
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Renders a small JPEG preview of an image, bounded by maxSize on its longest side.
+ */
+export const createThumbnail = async (src: string, maxSize: number = 160): Promise<Blob> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.width * scale));
+  canvas.height = Math.max(1, Math.round(img.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Thumbnail encoding failed"))), 'image/jpeg', 0.8);
+  });
+};
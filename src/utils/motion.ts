@@ -0,0 +1,186 @@
+import { MotionDescription, MotionState, PathPoint } from '../types';
+
+export interface MotionPreset {
+  id: string;
+  label: string;
+  motion: Partial<MotionDescription>;
+}
+
+export const STILL_MOTION: MotionDescription = {
+  translateX: 0,
+  translateY: 0,
+  zoom: 1,
+  rotation: 0,
+  orbit: 0,
+};
+
+// Directional travel covers a third of the frame over the whole sequence
+const TRAVEL = 0.3;
+const DIAGONAL = TRAVEL / Math.SQRT2;
+
+export const MOTION_PRESETS: MotionPreset[] = [
+  { id: 'up-left', label: 'Up Left', motion: { translateX: -DIAGONAL, translateY: -DIAGONAL } },
+  { id: 'up', label: 'Up', motion: { translateY: -TRAVEL } },
+  { id: 'up-right', label: 'Up Right', motion: { translateX: DIAGONAL, translateY: -DIAGONAL } },
+  { id: 'left', label: 'Left', motion: { translateX: -TRAVEL } },
+  { id: 'zoom-in', label: 'Closer', motion: { zoom: 1.5 } },
+  { id: 'right', label: 'Right', motion: { translateX: TRAVEL } },
+  { id: 'down-left', label: 'Down Left', motion: { translateX: -DIAGONAL, translateY: DIAGONAL } },
+  { id: 'down', label: 'Down', motion: { translateY: TRAVEL } },
+  { id: 'down-right', label: 'Down Right', motion: { translateX: DIAGONAL, translateY: DIAGONAL } },
+  { id: 'zoom-out', label: 'Farther', motion: { zoom: 0.65 } },
+  { id: 'rotate-cw', label: 'Rotate', motion: { rotation: 45 } },
+  { id: 'rotate-ccw', label: 'Rotate Back', motion: { rotation: -45 } },
+  { id: 'orbit-left', label: 'Orbit Left', motion: { orbit: -45 } },
+  { id: 'orbit-right', label: 'Orbit Right', motion: { orbit: 45 } },
+];
+
+export const DEFAULT_MOTION: MotionDescription = { ...STILL_MOTION, translateX: TRAVEL };
+
+/**
+ * Applies a preset, either replacing the current motion or adding to it.
+ * Zoom factors multiply; everything else adds up.
+ */
+export const applyPreset = (current: MotionDescription, preset: MotionPreset, combine: boolean): MotionDescription => {
+  const base = combine ? current : { ...STILL_MOTION };
+  const { translateX = 0, translateY = 0, zoom = 1, rotation = 0, orbit = 0 } = preset.motion;
+  return {
+    translateX: base.translateX + translateX,
+    translateY: base.translateY + translateY,
+    zoom: base.zoom * zoom,
+    rotation: base.rotation + rotation,
+    orbit: base.orbit + orbit,
+    path: combine ? current.path : undefined,
+  };
+};
+
+const pathLength = (path: PathPoint[]) => {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) {
+    total += Math.hypot(path[i].x - path[i - 1].x, path[i].y - path[i - 1].y);
+  }
+  return total;
+};
+
+/**
+ * Point at fraction t (0..1) of the path's arc length.
+ */
+export const pointAlongPath = (path: PathPoint[], t: number): PathPoint => {
+  if (path.length === 0) return { x: 0.5, y: 0.5 };
+  if (path.length === 1) return path[0];
+
+  let remaining = Math.min(1, Math.max(0, t)) * pathLength(path);
+  for (let i = 1; i < path.length; i++) {
+    const segment = Math.hypot(path[i].x - path[i - 1].x, path[i].y - path[i - 1].y);
+    if (remaining <= segment && segment > 0) {
+      const f = remaining / segment;
+      return {
+        x: path[i - 1].x + (path[i].x - path[i - 1].x) * f,
+        y: path[i - 1].y + (path[i].y - path[i - 1].y) * f,
+      };
+    }
+    remaining -= segment;
+  }
+  return path[path.length - 1];
+};
+
+/**
+ * Drops points closer than minDistance to their predecessor, keeping the end point.
+ */
+export const simplifyPath = (points: PathPoint[], minDistance: number = 0.01): PathPoint[] => {
+  if (points.length < 3) return points;
+  const result = [points[0]];
+  for (let i = 1; i < points.length - 1; i++) {
+    const last = result[result.length - 1];
+    if (Math.hypot(points[i].x - last.x, points[i].y - last.y) >= minDistance) {
+      result.push(points[i]);
+    }
+  }
+  result.push(points[points.length - 1]);
+  return result;
+};
+
+export const hasPath = (motion: MotionDescription) => (motion.path?.length ?? 0) > 1;
+
+/**
+ * Resolves the motion at the given (eased) progress.
+ */
+export const evaluateMotion = (motion: MotionDescription, progress: number): MotionState => {
+  const p = Math.min(1, Math.max(0, progress));
+  const state: MotionState = {
+    offsetX: motion.translateX * p,
+    offsetY: motion.translateY * p,
+    // Interpolate zoom geometrically so each step feels equally large
+    scale: Math.pow(motion.zoom, p),
+    rotation: motion.rotation * p,
+    orbit: motion.orbit * p,
+  };
+
+  if (hasPath(motion)) {
+    const path = motion.path!;
+    const position = pointAlongPath(path, p);
+    state.position = position;
+    state.offsetX = position.x - path[0].x;
+    state.offsetY = position.y - path[0].y;
+  }
+
+  return state;
+};
+
+const percent = (v: number) => `${Math.round(Math.abs(v) * 100)}%`;
+
+/**
+ * Short human-readable summary, e.g. "moving right while zooming in".
+ */
+export const summarizeMotion = (motion: MotionDescription): string => {
+  const parts: string[] = [];
+  if (hasPath(motion)) {
+    parts.push('following a drawn path');
+  } else {
+    const horizontal = motion.translateX > 0.005 ? 'right' : motion.translateX < -0.005 ? 'left' : '';
+    const vertical = motion.translateY > 0.005 ? 'down' : motion.translateY < -0.005 ? 'up' : '';
+    const heading = [vertical, horizontal].filter(Boolean).join('-');
+    if (heading) parts.push(`moving ${heading}`);
+  }
+  if (motion.zoom > 1.005) parts.push('zooming in (getting closer)');
+  if (motion.zoom < 0.995) parts.push('zooming out (getting farther)');
+  if (Math.abs(motion.rotation) >= 1) parts.push(`rotating ${motion.rotation > 0 ? 'clockwise' : 'counter-clockwise'}`);
+  if (Math.abs(motion.orbit) >= 1) parts.push(`orbiting ${motion.orbit > 0 ? 'right' : 'left'} around the subject`);
+  if (parts.length === 0) return 'holding still';
+  return parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(', ')} while ${parts[parts.length - 1]}`;
+};
+
+/**
+ * Describes where the subject should be at a given state, one instruction per line.
+ * Offsets are relative to the original frame.
+ */
+export const describeMotionState = (motion: MotionDescription, state: MotionState): string[] => {
+  const lines: string[] = [];
+
+  if (state.position && hasPath(motion)) {
+    const start = motion.path![0];
+    lines.push(
+      `The subject's center is at approximately ${percent(state.position.x)} from the left and ${percent(state.position.y)} from the top of the frame (it started at ${percent(start.x)} from the left, ${percent(start.y)} from the top).`
+    );
+  } else if (Math.abs(state.offsetX) >= 0.005 || Math.abs(state.offsetY) >= 0.005) {
+    const moves: string[] = [];
+    if (Math.abs(state.offsetX) >= 0.005) moves.push(`${percent(state.offsetX)} of the frame width to the ${state.offsetX > 0 ? 'right' : 'left'}`);
+    if (Math.abs(state.offsetY) >= 0.005) moves.push(`${percent(state.offsetY)} of the frame height ${state.offsetY > 0 ? 'down' : 'up'}`);
+    lines.push(`The subject has shifted ${moves.join(' and ')} from its original position.`);
+  }
+
+  if (Math.abs(state.scale - 1) >= 0.005) {
+    lines.push(`The subject appears ${state.scale.toFixed(2)}x its original size (${state.scale > 1 ? 'closer to' : 'farther from'} the camera).`);
+  }
+  if (Math.abs(state.rotation) >= 0.5) {
+    lines.push(`The subject is rotated ${Math.round(Math.abs(state.rotation))}° ${state.rotation > 0 ? 'clockwise' : 'counter-clockwise'} from its original orientation.`);
+  }
+  if (Math.abs(state.orbit) >= 0.5) {
+    lines.push(`The viewpoint has orbited ${Math.round(Math.abs(state.orbit))}° around the subject to the ${state.orbit > 0 ? 'right' : 'left'}, showing it from a correspondingly turned angle.`);
+  }
+  if (lines.length === 0) {
+    lines.push('The subject stays where it is in the original frame.');
+  }
+
+  return lines;
+};
@@ -0,0 +1,39 @@
+import { PlaybackMode, PlaybackSettings } from '../types';
+
+export const DEFAULT_PLAYBACK: PlaybackSettings = { mode: 'loop', speed: 1 };
+
+export const PLAYBACK_MODES: { id: PlaybackMode; label: string }[] = [
+  { id: 'loop', label: 'Loop' },
+  { id: 'ping-pong', label: 'Ping-pong' },
+  { id: 'once', label: 'Once' },
+];
+
+export const MAX_HOLD = 8;
+
+/** One step of playback: which frame is shown and for how long. */
+export interface TimelineEntry {
+  index: number;
+  /** Display time in milliseconds. */
+  duration: number;
+}
+
+/**
+ * Expands the playable frames into the order they are shown in. Ping-pong
+ * plays back to front without repeating the two end frames, so the
+ * sequence loops seamlessly.
+ */
+export const buildTimeline = (
+  indices: number[],
+  holds: (number | undefined)[],
+  fps: number,
+  playback: PlaybackSettings,
+): TimelineEntry[] => {
+  const interval = 1000 / (fps * playback.speed);
+  const forward = indices.map(index => ({ index, duration: interval * (holds[index] ?? 1) }));
+  if (playback.mode !== 'ping-pong' || forward.length < 3) return forward;
+  return [...forward, ...forward.slice(1, -1).reverse()];
+};
+
+/** Total playing time of a timeline up to (not including) position. */
+export const timelineElapsed = (timeline: TimelineEntry[], position: number) =>
+  timeline.slice(0, position).reduce((sum, entry) => sum + entry.duration, 0);